@@ -1,9 +1,19 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { GameInterface } from './components/GameInterface';
+import { QuestProvider, getQuestProvider, resolveProviderId } from './services/provider';
 
 function App() {
+  // Decided before the game mounts, so a tour never switches backends halfway
+  const [questProvider, setQuestProvider] = useState<QuestProvider | null>(null);
+
+  useEffect(() => {
+    resolveProviderId().then(id => setQuestProvider(getQuestProvider(id)));
+  }, []);
+
+  if (!questProvider) return null;
+
   return (
-    <GameInterface />
+    <GameInterface questProvider={questProvider} />
   );
 }
 
@@ -1,29 +1,16 @@
 
 import React from 'react';
-import { MapPin, ExternalLink, Search, Image as ImageIcon } from 'lucide-react';
-import { ChatMessage as ChatMessageType, Sender } from '../types';
+import { MapPin, ExternalLink, Search, Image as ImageIcon, Loader2 } from 'lucide-react';
+import { ChatMessage as ChatMessageType, ConceptEvaluation, ConceptVerdict, GameTurnData, Sender } from '../types';
+import { getLocationImage } from '../services/imagery';
+import { UiStrings } from '../i18n';
 
 interface Props {
   message: ChatMessageType;
+  strings: UiStrings;
 }
 
-// Helper to get a relevant image based on the keyword from Gemini
-const getLocationImage = (type: string) => {
-    const map: Record<string, string> = {
-        'library': 'https://images.unsplash.com/photo-1568667256549-094345857637?auto=format&fit=crop&w=800&q=80', // Library
-        'gym': 'https://images.unsplash.com/photo-1534438327276-14e5300c3a48?auto=format&fit=crop&w=800&q=80', // Gym
-        'pool': 'https://images.unsplash.com/photo-1576610616656-d3aa5d1f4534?auto=format&fit=crop&w=800&q=80', // Pool
-        'pizza': 'https://images.unsplash.com/photo-1513104890138-7c749659a591?auto=format&fit=crop&w=800&q=80', // Pizza
-        'food': 'https://images.unsplash.com/photo-1550547660-d9450f859349?auto=format&fit=crop&w=800&q=80', // Dining
-        'store': 'https://images.unsplash.com/photo-1578916171728-46686eac8d58?auto=format&fit=crop&w=800&q=80', // Store
-        'park': 'https://images.unsplash.com/photo-1496302662116-35cc4f36df92?auto=format&fit=crop&w=800&q=80', // The Columns/Park
-        'coffee': 'https://images.unsplash.com/photo-1509042239860-f550ce710b93?auto=format&fit=crop&w=800&q=80',
-        'outdoors': 'https://images.unsplash.com/photo-1541339907198-e08756dedf3f?auto=format&fit=crop&w=800&q=80' // Campus general
-    };
-    return map[type] || map['outdoors'];
-};
-
-export const ChatMessage: React.FC<Props> = ({ message }) => {
+export const ChatMessage: React.FC<Props> = ({ message, strings }) => {
   const isUser = message.role === Sender.USER;
 
   if (isUser) {
@@ -39,6 +26,7 @@ export const ChatMessage: React.FC<Props> = ({ message }) => {
             }`}>
              {message.text}
           </div>
+          {message.conceptEvaluation && <ConceptBadge evaluation={message.conceptEvaluation} label={strings.verdicts[message.conceptEvaluation.verdict]} />}
         </div>
       </div>
     );
@@ -51,14 +39,13 @@ export const ChatMessage: React.FC<Props> = ({ message }) => {
   if (!content) {
       return (
           <div className="mb-8 bg-white/50 p-4 rounded-lg text-stone-500 italic">
-              {message.text || "Loading..."}
+              {message.text || strings.loading}
           </div>
       );
   }
 
   // Get the primary map link
   const primaryMapLink = message.groundingChunks?.find(c => c.maps?.uri)?.maps?.uri;
-  const locationImage = getLocationImage(content.locationType);
 
   return (
     <div className="flex justify-start mb-12 w-full">
@@ -68,31 +55,10 @@ export const ChatMessage: React.FC<Props> = ({ message }) => {
         {/* Only show the big header/image if it's the start of the turn (concept step) */}
         {message.step === 'concept' && (
             <>
-                <div className="flex items-center gap-3 border-b border-stone-300 pb-2">
-                    <div className="bg-amber-700 text-white p-2 rounded-full shadow-sm">
-                        <MapPin className="w-5 h-5" />
-                    </div>
-                    <div>
-                        <h3 className="font-ui text-xs font-bold text-stone-400 uppercase tracking-widest">Current Stop</h3>
-                        <h2 className="font-serif text-3xl font-bold text-stone-800">{content.locationName}</h2>
-                    </div>
-                </div>
+                <StopHeader locationName={content.locationName} label={strings.currentStop} />
 
                 {/* IMAGE CARD - Acts as the "Visual" */}
-                <div className="bg-white p-2 pb-8 rounded-sm shadow-md transform rotate-[-1deg] border border-stone-200 max-w-md mx-auto md:mx-0">
-                    <div className="relative h-48 overflow-hidden bg-stone-200 mb-2">
-                        <img 
-                            src={locationImage} 
-                            alt={content.locationName} 
-                            className="w-full h-full object-cover"
-                        />
-                        <div className="absolute bottom-2 right-2 bg-black/50 text-white text-[10px] px-2 py-1 rounded backdrop-blur-sm flex items-center gap-1">
-                            <ImageIcon className="w-3 h-3" />
-                            <span>Visual Ref</span>
-                        </div>
-                    </div>
-                    <div className="font-hand text-center text-stone-600 text-xl">{content.locationName}</div>
-                </div>
+                <LocationCard locationName={content.locationName} locationType={content.locationType} badge={strings.visualRef} />
 
                 {/* Map Link (Small) */}
                 {primaryMapLink && (
@@ -103,7 +69,7 @@ export const ChatMessage: React.FC<Props> = ({ message }) => {
                     className="inline-flex items-center gap-2 text-amber-700 hover:text-amber-900 font-ui text-xs font-bold uppercase tracking-wider border border-amber-200 px-3 py-1 rounded hover:bg-amber-50 transition-colors"
                   >
                     <ExternalLink className="w-3 h-3" />
-                    <span>Verify on Google Maps</span>
+                    <span>{strings.verifyOnMaps}</span>
                   </a>
                 )}
 
@@ -116,14 +82,76 @@ export const ChatMessage: React.FC<Props> = ({ message }) => {
             </>
         )}
 
-        {/* 2. SPANISH CHALLENGE (Only shown via GameInterface state, but if this message persists in history, we show the result context) */}
-        {/* We actually don't need to render the 'grammar' part here for the AI message, 
-            because the UI renders the grammar interaction area. 
-            However, if we wanted to show the "Question" in the history AFTER it's answered, we could do it here.
-            For now, we let the GameInterface "Options" area handle the active question.
-        */}
-        
+        {/* 2. SPANISH CHALLENGE: answered in GameInterface's panel. Once the stop is done, the filled-in
+            sentence, the tries and the explanation are in the study journal (Journal.tsx). */}
+
       </div>
     </div>
   );
 };
+
+const VERDICT_STYLES: Record<ConceptVerdict, string> = {
+    'on-target': 'bg-green-100 text-green-800 border-green-300',
+    'partial': 'bg-amber-100 text-amber-800 border-amber-300',
+    'off-target': 'bg-red-100 text-red-800 border-red-300',
+};
+
+// How the Phase 1 answer was judged, under the student's bubble
+const ConceptBadge: React.FC<{ evaluation: ConceptEvaluation; label: string }> = ({ evaluation, label }) => (
+    <div className="mt-2 flex items-start justify-end gap-2 text-right">
+        <span className="font-ui text-xs text-stone-500 italic">{evaluation.reason}</span>
+        <span className={`shrink-0 font-ui text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full border ${VERDICT_STYLES[evaluation.verdict]}`}>
+            {label}
+        </span>
+    </div>
+);
+
+const StopHeader: React.FC<{ locationName: string; label: string }> = ({ locationName, label }) => (
+    <div className="flex items-center gap-3 border-b border-stone-300 pb-2">
+        <div className="bg-amber-700 text-white p-2 rounded-full shadow-sm">
+            <MapPin className="w-5 h-5" />
+        </div>
+        <div>
+            <h3 className="font-ui text-xs font-bold text-stone-400 uppercase tracking-widest">{label}</h3>
+            <h2 className="font-serif text-3xl font-bold text-stone-800">{locationName}</h2>
+        </div>
+    </div>
+);
+
+const LocationCard: React.FC<{ locationName: string; locationType: string; badge: string }> = ({ locationName, locationType, badge }) => (
+    <div className="bg-white p-2 pb-8 rounded-sm shadow-md transform rotate-[-1deg] border border-stone-200 max-w-md mx-auto md:mx-0">
+        <div className="relative h-48 overflow-hidden bg-stone-200 mb-2">
+            <img 
+                src={getLocationImage(locationType)} 
+                alt={locationName} 
+                className="w-full h-full object-cover"
+            />
+            <div className="absolute bottom-2 right-2 bg-black/50 text-white text-[10px] px-2 py-1 rounded backdrop-blur-sm flex items-center gap-1">
+                <ImageIcon className="w-3 h-3" />
+                <span>{badge}</span>
+            </div>
+        </div>
+        <div className="font-hand text-center text-stone-600 text-xl">{locationName}</div>
+    </div>
+);
+
+// A stop that is still streaming in: each part shows up as soon as its field has arrived
+export const IncomingTurn: React.FC<{ turn: Partial<GameTurnData>; strings: UiStrings }> = ({ turn, strings }) => (
+    <div className="flex justify-start mb-12 w-full">
+      <div className="w-full max-w-3xl space-y-6 animate-in fade-in duration-300">
+        {turn.locationName && <StopHeader locationName={turn.locationName} label={strings.currentStop} />}
+        {turn.locationName && turn.locationType && (
+            <LocationCard locationName={turn.locationName} locationType={turn.locationType} badge={strings.visualRef} />
+        )}
+        {turn.englishQuestion && (
+            <div className="bg-stone-100 border-l-4 border-blue-400 p-4 rounded-r-lg mt-4">
+                 <p className="font-serif text-lg text-stone-800">{turn.englishQuestion}</p>
+            </div>
+        )}
+        <div className="flex items-center gap-2 text-stone-500 font-hand text-lg">
+            <Loader2 className="w-4 h-4 animate-spin text-amber-600" />
+            <span>{strings.gettingStopReady}</span>
+        </div>
+      </div>
+    </div>
+);
@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Pause, Play, SkipForward, Loader2, Users } from 'lucide-react';
+import { ClassroomState, DifficultyLevel, LanguageId } from '../types';
+import { QUEST_PACKS, getQuestPack } from '../quests';
+import {
+  CLASSROOM_POLL_MS, TeacherClassroom, controlClassroom, createClassroom, fetchClassroomState,
+  loadTeacherClassroom, saveTeacherClassroom,
+} from '../services/classroom';
+import { MISCONCEPTION_LABELS, mergeMisconceptionCounts, rankMisconceptions } from '../services/misconceptions';
+import { BLOCK_REASON_LABELS } from '../services/inputGuard';
+
+interface Props {
+  topicIds: string[] | null; // The start screen's topic choice; null means each pack's own
+  language: LanguageId;
+  difficulty: DifficultyLevel | null; // Pinned on the start screen; null lets each student's level adapt
+  onExit: () => void;
+}
+
+// Students who haven't reported for this long are shown as idle
+const IDLE_AFTER_MS = 60 * 1000;
+
+// Teacher screen for classroom mode: start a class, share its code, watch the leaderboard and set the pace
+export const ClassroomDashboard: React.FC<Props> = ({ topicIds, language, difficulty, onExit }) => {
+  const [teacher, setTeacher] = useState<TeacherClassroom | null>(() => loadTeacherClassroom());
+  const [classroom, setClassroom] = useState<ClassroomState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Live leaderboard
+  useEffect(() => {
+    if (!teacher) return;
+    let cancelled = false;
+    const refresh = async () => {
+      try {
+        const state = await fetchClassroomState(teacher.code, teacher.teacherToken);
+        if (cancelled) return;
+        setClassroom(state);
+        setError(null);
+      } catch (err) {
+        console.error("Failed to refresh the class:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Lost contact with the quest server");
+      }
+    };
+    refresh();
+    const timer = setInterval(refresh, CLASSROOM_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [teacher]);
+
+  const startClass = async (packId: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const pack = getQuestPack(packId);
+      const created = await createClassroom(packId, topicIds ?? pack?.topicIds, language, difficulty);
+      const next = { code: created.state.code, teacherToken: created.teacherToken };
+      saveTeacherClassroom(next);
+      setClassroom(created.state);
+      setTeacher(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not start the class");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const control = async (action: 'pause' | 'resume' | 'advance') => {
+    if (!teacher) return;
+    setIsBusy(true);
+    try {
+      setClassroom(await controlClassroom(teacher, action));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "The class didn't respond");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const endClass = () => {
+    saveTeacherClassroom(null);
+    setTeacher(null);
+    setClassroom(null);
+    setError(null);
+  };
+
+  const pack = classroom ? getQuestPack(classroom.packId) : undefined;
+  const misconceptions = classroom
+    ? rankMisconceptions(mergeMisconceptionCounts(classroom.students.map(student => student.misconceptions ?? {})))
+    : [];
+  // Newest first, across the class
+  const blockedLog = (classroom?.students ?? [])
+    .flatMap(student => (student.blockedInputs ?? []).map(blocked => ({ ...blocked, name: student.name })))
+    .sort((a, b) => b.at - a.at);
+
+  return (
+    <div className="min-h-screen bg-[#f0ebe0] p-4 md:p-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <button onClick={onExit} className="font-ui text-sm font-bold text-stone-600 hover:text-amber-800 flex items-center gap-1">
+            <ArrowLeft className="w-4 h-4" /> Back
+          </button>
+          <h1 className="font-serif text-3xl font-bold text-stone-800 flex items-center gap-2">
+            <Users className="w-7 h-7 text-amber-700" /> Classroom
+          </h1>
+          <div className="w-16"></div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-900 rounded font-ui text-sm">{error}</div>
+        )}
+
+        {!teacher && (
+          <div className="bg-white border-2 border-stone-300 rounded-xl p-6 max-w-md mx-auto">
+            <p className="font-hand text-xl text-stone-700 mb-4">Pick the tour the whole class will play:</p>
+            <div className="flex flex-col gap-3">
+              {QUEST_PACKS.map(questPack => (
+                <button
+                  key={questPack.id}
+                  onClick={() => startClass(questPack.id)}
+                  disabled={isBusy}
+                  className="text-left px-5 py-4 bg-white border-2 border-stone-300 rounded-xl hover:border-amber-600 hover:bg-amber-50 transition-colors"
+                >
+                  <div className="font-serif text-xl font-bold text-stone-800">{questPack.campusName}</div>
+                  <div className="font-ui text-xs text-stone-500 uppercase tracking-wider">{questPack.turnCount} stops</div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {teacher && !classroom && (
+          <div className="flex justify-center py-12"><Loader2 className="w-8 h-8 animate-spin text-amber-700" /></div>
+        )}
+
+        {teacher && classroom && (
+          <>
+            {/* JOIN CODE AND PACE */}
+            <div className="bg-white border-2 border-stone-300 rounded-xl p-6 mb-6 flex flex-col md:flex-row md:items-center gap-6">
+              <div className="text-center md:text-left">
+                <div className="font-ui text-xs font-bold text-stone-500 uppercase tracking-wider">Join code</div>
+                <div className="font-mono text-5xl font-bold tracking-[0.3em] text-amber-800">{classroom.code}</div>
+                <div className="font-ui text-xs text-stone-500 mt-1">
+                  {pack?.campusName ?? classroom.packId} · {classroom.difficulty ? `${classroom.difficulty} level` : 'adaptive level'}
+                </div>
+              </div>
+              <div className="flex-1 text-center">
+                <div className="font-serif text-2xl font-bold text-stone-800">Stop {classroom.openStop} / {classroom.maxTurns} open</div>
+                <div className={`font-ui text-sm font-bold ${classroom.paused ? 'text-red-700' : 'text-green-700'}`}>
+                  {classroom.paused ? 'Paused' : 'Playing'}
+                </div>
+              </div>
+              <div className="flex flex-wrap justify-center gap-2">
+                <button
+                  onClick={() => control(classroom.paused ? 'resume' : 'pause')}
+                  disabled={isBusy}
+                  className="px-4 py-2 bg-white border-2 border-stone-300 rounded-full font-ui font-bold text-sm hover:border-amber-600 flex items-center gap-2"
+                >
+                  {classroom.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                  {classroom.paused ? 'Resume' : 'Pause'}
+                </button>
+                <button
+                  onClick={() => control('advance')}
+                  disabled={isBusy || classroom.openStop >= classroom.maxTurns}
+                  className="px-4 py-2 bg-amber-700 disabled:bg-stone-400 text-white rounded-full font-ui font-bold text-sm hover:bg-amber-800 flex items-center gap-2"
+                >
+                  <SkipForward className="w-4 h-4" /> Open next stop
+                </button>
+                <button onClick={endClass} className="px-4 py-2 font-ui text-xs font-bold uppercase tracking-wider text-stone-500 hover:text-red-700">
+                  New class
+                </button>
+              </div>
+            </div>
+
+            {/* LEADERBOARD */}
+            {classroom.students.length === 0 ? (
+              <p className="text-center font-hand text-xl text-stone-500">Waiting for students to join with code {classroom.code}...</p>
+            ) : (
+              <table className="w-full bg-white border-2 border-stone-300 rounded-xl overflow-hidden font-ui text-sm">
+                <thead>
+                  <tr className="bg-stone-100 text-stone-500 text-xs uppercase">
+                    <th className="text-left p-3">#</th>
+                    <th className="text-left p-3">Student</th>
+                    <th className="text-left p-3">Stop</th>
+                    <th className="text-right p-3">Done</th>
+                    <th className="text-right p-3">First try</th>
+                    <th className="text-right p-3">Pts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {classroom.students.map((student, idx) => {
+                    const isIdle = !student.finished && Date.now() - student.lastSeenAt > IDLE_AFTER_MS;
+                    return (
+                      <tr key={student.name} className="border-t border-stone-200 text-stone-700">
+                        <td className="p-3 font-bold">{idx + 1}</td>
+                        <td className="p-3 font-serif text-base font-bold text-stone-800">
+                          {student.name}
+                          {isIdle && <span className="ml-2 font-ui text-[10px] text-stone-400 uppercase">idle</span>}
+                        </td>
+                        <td className="p-3">{student.finished ? <span className="text-green-700 font-bold">Finished</span> : `${student.currentTurn} / ${classroom.maxTurns}`}</td>
+                        <td className="p-3 text-right">{student.stopsCompleted}</td>
+                        <td className="p-3 text-right">
+                          {student.stopsCompleted ? `${Math.round((student.firstTryCorrect / student.stopsCompleted) * 100)}%` : '–'}
+                        </td>
+                        <td className="p-3 text-right font-bold">{student.points}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+
+            {/* WHAT THE CLASS KEEPS GETTING WRONG */}
+            {misconceptions.length > 0 && (
+              <div className="mt-6 bg-white border-2 border-stone-300 rounded-xl p-6 font-ui">
+                <h2 className="text-xs font-bold text-stone-500 uppercase tracking-wider mb-3">Common mistakes</h2>
+                <ul className="space-y-2 text-sm">
+                  {misconceptions.map(({ tag, count }) => (
+                    <li key={tag} className="flex items-center gap-3">
+                      <span className="w-48 text-stone-800">{MISCONCEPTION_LABELS[tag]}</span>
+                      <div className="flex-1 h-2 bg-stone-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-red-600" style={{ width: `${(count / misconceptions[0].count) * 100}%` }}></div>
+                      </div>
+                      <span className="w-8 text-right font-bold text-red-700">{count}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* ANSWERS KEPT FROM THE MODEL */}
+            {blockedLog.length > 0 && (
+              <div className="mt-6 bg-white border-2 border-stone-300 rounded-xl p-6 font-ui">
+                <h2 className="text-xs font-bold text-stone-500 uppercase tracking-wider mb-3">Blocked inputs</h2>
+                <ul className="space-y-2 text-sm">
+                  {blockedLog.map((blocked, idx) => (
+                    <li key={idx} className="flex flex-wrap items-baseline gap-x-3">
+                      <span className="font-serif font-bold text-stone-800">{blocked.name}</span>
+                      <span className="text-[10px] text-stone-500 uppercase tracking-wider">
+                        Stop {blocked.turn} · {BLOCK_REASON_LABELS[blocked.reason]} · {new Date(blocked.at).toLocaleTimeString()}
+                      </span>
+                      <span className="w-full text-stone-700 break-words">"{blocked.text}"</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,79 +1,356 @@
 
-import React, { useEffect, useRef, useState } from 'react';
-import { Send, Compass, Map as MapIcon, Loader2, X, Book, Trophy, ArrowRight, GraduationCap, Image as ImageIcon } from 'lucide-react';
-import { initChat, sendMessage, generateBridgeResponse } from '../services/gemini';
-import { ChatMessage as ChatMessageComponent } from './ChatMessage';
-import { ChatMessage, GameState, Sender, GameTurnData } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Send, Compass, Map as MapIcon, Loader2, X, Book, Trophy, ArrowRight, GraduationCap, RotateCcw, Download, Users, School, Pause, NotebookPen, AlertTriangle, ArrowLeft, Image as ImageIcon } from 'lucide-react';
+import { QuestProvider } from '../services/provider';
+import { createTurnPrefetcher } from '../services/prefetch';
+import {
+  CLASSROOM_POLL_MS, ClassroomMembership, createClassroomProvider, fetchClassroomState, joinClassroom, reportClassroomProgress, saveClassroomSeat,
+} from '../services/classroom';
+import { clearSession, loadSession, saveSession } from '../services/session';
+import { ChatMessage as ChatMessageComponent, IncomingTurn } from './ChatMessage';
+import { GrammarChallenge } from './GrammarChallenge';
+import { HintLadder } from './HintLadder';
+import { ReportCard } from './ReportCard';
+import { ReviewSession } from './ReviewSession';
+import { InstructorView } from './InstructorView';
+import { ClassroomDashboard } from './ClassroomDashboard';
+import { GrammarGuide } from './GrammarGuide';
+import { TourMap, VisitedStop } from './TourMap';
+import { Journal } from './Journal';
+import { buildSessionExport, downloadSession } from '../services/transcriptExport';
+import { addMissedItem, getDueCards } from '../services/reviewDeck';
+import { summarizeResults } from '../services/scoring';
+import { gradeAnswer } from '../services/grader';
+import { HINT_LADDER, buildHint } from '../services/hints';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_LEVELS, adaptDifficulty, applyDifficulty } from '../services/difficulty';
+import { feedbackForAnswer } from '../services/misconceptions';
+import { MAX_LEARNER_TEXT_LENGTH, MAX_REPORTED_BLOCKED_INPUTS, sanitizeLearnerText, screenLearnerText } from '../services/inputGuard';
+import { GeolocationSource, resolveGeolocationSource } from '../services/geolocation';
+import { ChatMessage, ClassroomState, Coordinates, DifficultyLevel, GameState, LanguageId, Sender, GameTurnData, QuestPack, SavedSession, StopResult, TurnResponse } from '../types';
+import { DEFAULT_PACK, QUEST_PACKS, getQuestPack } from '../quests';
+import { NEARBY_PACK_ID, createNearbyPack } from '../quests/nearby';
+import { DEFAULT_TOPIC_IDS, GRAMMAR_TOPICS, getTopics } from '../curriculum';
+import { LANGUAGES, getStrings } from '../i18n';
+import { loadLanguage, saveLanguage } from '../services/language';
 import { v4 as uuidv4 } from 'uuid';
 
-const TOTAL_TURNS = 10;
+const INITIAL_GAME_STATE: GameState = {
+  status: 'intro',
+  location: null,
+  currentTurn: 1,
+  maxTurns: DEFAULT_PACK.turnCount,
+  activeChallenge: null,
+  turnStep: 'concept', // Start with English concept
+  answerMode: 'choice',
+  studentName: '',
+  topicIds: DEFAULT_TOPIC_IDS,
+  difficulty: DEFAULT_DIFFICULTY,
+  pinnedDifficulty: null,
+  attempts: 0,
+  wrongAnswers: [],
+  hintsUsed: 0,
+  revealedHints: [],
+  conceptEvaluation: null,
+  conceptRetried: false,
+  challengeStartedAt: null,
+  results: [],
+  blockedInputs: []
+};
+
+interface Props {
+  questProvider: QuestProvider; // Picked once per page load (see resolveProviderId)
+  geolocation?: GeolocationSource; // Defaults to the browser (or ?lat=&lng= in the URL)
+}
 
-export const GameInterface: React.FC = () => {
+// Saved tours store a pack id; "Near me" packs are rebuilt from the saved player position
+const resolveSavedPack = (session: SavedSession): QuestPack | undefined => {
+  if (session.packId === NEARBY_PACK_ID) {
+    return session.gameState.location ? createNearbyPack(session.gameState.location) : undefined;
+  }
+  return getQuestPack(session.packId);
+};
+
+export const GameInterface: React.FC<Props> = ({ questProvider: baseProvider, geolocation }) => {
+  const [classroom, setClassroom] = useState<ClassroomMembership | null>(null); // Set while playing in a class
+  const [classroomState, setClassroomState] = useState<ClassroomState | null>(null);
+  const classroomProvider = useMemo(() => classroom ? createClassroomProvider(classroom, baseProvider) : null, [classroom, baseProvider]);
+  const questProvider = classroomProvider ?? baseProvider;
+  const prefetcher = useMemo(() => createTurnPrefetcher(questProvider), [questProvider]);
+  const locate = useMemo(() => geolocation ?? resolveGeolocationSource(), [geolocation]);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [englishInput, setEnglishInput] = useState('');
   const [feedbackMessage, setFeedbackMessage] = useState<{text: string, type: 'success' | 'error'} | null>(null);
+  const [incomingTurn, setIncomingTurn] = useState<Partial<GameTurnData> | null>(null); // Streamed fields of the turn being loaded
+  const [isBridging, setIsBridging] = useState(false); // The bridge sentence is still typing out
+  const [loadError, setLoadError] = useState<string | null>(null); // Why the tour failed to start or resume
+  const [failedTurn, setFailedTurn] = useState<{ turnNumber: number; difficulty: DifficultyLevel } | null>(null); // The next stop, when it didn't load
+  const retryLoad = useRef<(() => void) | null>(null); // Starts or resumes the failed tour again
   
-  const [gameState, setGameState] = useState<GameState>({ 
-    status: 'intro', 
-    location: null,
-    currentTurn: 1,
-    maxTurns: TOTAL_TURNS,
-    activeChallenge: null,
-    turnStep: 'concept' // Start with English concept
-  });
+  const [gameState, setGameState] = useState<GameState>(INITIAL_GAME_STATE);
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(null);
+  const [pack, setPack] = useState<QuestPack>(DEFAULT_PACK);
+  const [isLocating, setIsLocating] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [answerMode, setAnswerMode] = useState<GameState['answerMode']>('choice');
+  const [studentName, setStudentName] = useState('');
+  const [isInstructorView, setIsInstructorView] = useState(false);
+  const [fallbackPackId, setFallbackPackId] = useState(DEFAULT_PACK.id);
+  const [selectedTopicIds, setSelectedTopicIds] = useState<string[] | null>(null); // null: each pack's own topics
+  const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyLevel | null>(null); // null: adaptive
+  const [isClassroomDashboard, setIsClassroomDashboard] = useState(false);
+  const [classCode, setClassCode] = useState('');
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+  const [language, setLanguage] = useState<LanguageId>(() => loadLanguage());
+  const strings = getStrings(language);
   
   const [showCheatSheet, setShowCheatSheet] = useState(false);
+  const [showMap, setShowMap] = useState(false);
+  const [showJournal, setShowJournal] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  const [stopAnnouncement, setStopAnnouncement] = useState('');
+
   // Scroll to bottom when messages change or processing starts
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    messagesEndRef.current?.scrollIntoView({ behavior: prefersReducedMotion() ? 'auto' : 'smooth' });
   }, [messages, isProcessing, gameState.turnStep]);
 
-  // Initialize Game
+  // SCREEN READERS: a new stop is read out once, when its challenge arrives (not while the bridge rewrites it)
+  const activeLocation = gameState.activeChallenge?.locationName;
+  const activeQuestion = gameState.activeChallenge?.englishQuestion;
   useEffect(() => {
-    const startQuest = async () => {
-      setGameState(prev => ({ ...prev, status: 'loading' }));
-      
-      try {
-        // We pass undefined to force Mizzou defaults in the service
-        await initChat();
-        const response = await sendMessage("START_GAME_MIZZOU_EDITION");
-        
-        const initialMessage: ChatMessage = {
-          id: uuidv4(),
-          role: Sender.MODEL,
-          structuredContent: response.turnData,
-          groundingChunks: response.groundingChunks,
-          timestamp: Date.now(),
-          step: 'concept'
-        };
-        setMessages([initialMessage]);
-        setGameState(prev => ({ 
-          ...prev, 
-          status: 'playing',
-          currentTurn: 1,
-          activeChallenge: response.turnData,
-          turnStep: 'concept'
-        }));
-      } catch (error) {
-        console.error("Failed to start game:", error);
-        setGameState(prev => ({ ...prev, status: 'error' }));
-      }
+    if (!activeLocation || !activeQuestion) return;
+    setStopAnnouncement(strings.stopAnnouncement(gameState.currentTurn, gameState.maxTurns, activeLocation, activeQuestion));
+  }, [activeLocation, activeQuestion, gameState.currentTurn, gameState.maxTurns, strings]);
+
+  // Screen readers pick their voice from the page language
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // Persist every change while a tour is in progress. Class tours aren't resumed: joining again is enough.
+  useEffect(() => {
+    if (gameState.status === 'playing' && !classroom) {
+      saveSession(pack.id, gameState, messages);
+    }
+  }, [pack, gameState, messages, classroom]);
+
+  // CLASSROOM: the class's tour starts once its provider is in place
+  useEffect(() => {
+    if (!classroom || !classroomState) return;
+    const classPack = getQuestPack(classroomState.packId);
+    if (classPack) {
+      startQuest(classPack, null, strings.joinedClass(classroom.code, classroom.name), classroomState.topicIds, classroomState.difficulty);
+    }
+    return () => classroomProvider?.close();
+  }, [classroomProvider]);
+
+  // Keep up with the teacher's pause and pace
+  useEffect(() => {
+    if (!classroom) return;
+    const timer = setInterval(() => {
+      fetchClassroomState(classroom.code)
+        .then(setClassroomState)
+        .catch(error => console.error("Failed to refresh the class:", error));
+    }, CLASSROOM_POLL_MS);
+    return () => clearInterval(timer);
+  }, [classroom]);
+
+  // Report progress for the leaderboard after every stop
+  const { results, currentTurn, status, blockedInputs } = gameState;
+  useEffect(() => {
+    if (!classroom || (status !== 'playing' && status !== 'finished')) return;
+    const summary = summarizeResults(results);
+    reportClassroomProgress(classroom, {
+      currentTurn,
+      stopsCompleted: summary.stops,
+      firstTryCorrect: summary.firstTryCorrect,
+      points: summary.points,
+      misconceptions: summary.misconceptions,
+      blockedInputs: blockedInputs.slice(-MAX_REPORTED_BLOCKED_INPUTS),
+      finished: status === 'finished',
+    }).then(setClassroomState).catch(error => console.error("Failed to report progress:", error));
+  }, [classroom, results, currentTurn, status, blockedInputs]);
+
+  // Fetch turn n (prefetched if possible) at the given level, add it to the transcript and make it the active challenge
+  const loadTurn = async (turnNumber: number, maxTurns: number, difficulty: DifficultyLevel) => {
+    const epoch = prefetcher.currentEpoch();
+    const isCurrent = () => epoch === prefetcher.currentEpoch();
+    let response: TurnResponse;
+    try {
+      response = await prefetcher.take(turnNumber, difficulty, partial => {
+        if (isCurrent()) setIncomingTurn(partial);
+      });
+    } finally {
+      if (isCurrent()) setIncomingTurn(null);
+    }
+    // The tour was restarted or abandoned while this turn was loading
+    if (!isCurrent()) return;
+    // A prefetched turn was asked for at the level before the last answer
+    const turnData = applyDifficulty(response.turnData, difficulty);
+
+    const modelMsg: ChatMessage = {
+      id: uuidv4(),
+      role: Sender.MODEL,
+      structuredContent: turnData,
+      groundingChunks: response.groundingChunks,
+      timestamp: Date.now(),
+      step: 'concept'
     };
 
-    startQuest();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    setMessages(prev => [...prev, modelMsg]);
+    setGameState(prev => ({
+      ...prev,
+      status: 'playing',
+      currentTurn: turnNumber,
+      activeChallenge: turnData,
+      turnStep: 'concept',
+      attempts: 0,
+      wrongAnswers: [],
+      hintsUsed: 0,
+      revealedHints: [],
+      conceptEvaluation: null,
+      conceptRetried: false,
+      challengeStartedAt: Date.now()
+    }));
+
+    // Ask for the next stop while the student works on this one
+    if (turnNumber < maxTurns) {
+      prefetcher.prefetch(turnNumber + 1, difficulty);
+    }
+  };
+
+  // `notice` is shown as a system line at the top of the transcript; a pinned difficulty never adapts
+  const startQuest = async (
+    selectedPack: QuestPack,
+    location: Coordinates | null = null,
+    notice?: string,
+    topicIds: string[] = selectedTopicIds ?? selectedPack.topicIds,
+    pinnedDifficulty: DifficultyLevel | null = selectedDifficulty
+  ) => {
+    const difficulty = pinnedDifficulty ?? DEFAULT_DIFFICULTY;
+    retryLoad.current = () => startQuest(selectedPack, location, notice, topicIds, pinnedDifficulty);
+    setLoadError(null);
+    setFailedTurn(null);
+    clearSession();
+    prefetcher.reset();
+    setSavedSession(null);
+    setPack(selectedPack);
+    setMessages(notice ? [{ id: uuidv4(), role: Sender.SYSTEM, text: notice, timestamp: Date.now() }] : []);
+    setFeedbackMessage(null);
+    setGameState({ ...INITIAL_GAME_STATE, status: 'loading', location, answerMode, studentName: studentName.trim(), topicIds, difficulty, pinnedDifficulty, maxTurns: selectedPack.turnCount });
+
+    try {
+      await questProvider.initChat({ pack: selectedPack, topicIds, lat: location?.lat, lng: location?.lng, language });
+      await loadTurn(1, selectedPack.turnCount, difficulty);
+    } catch (error) {
+      console.error("Failed to start game:", error);
+      setLoadError(error instanceof Error ? error.message : String(error));
+      setGameState(prev => ({ ...prev, status: 'error' }));
+    }
+  };
+
+  // "Near me": build the tour around the player, or fall back to the chosen pack
+  const startNearbyQuest = async () => {
+    setIsLocating(true);
+    try {
+      const location = await locate();
+      await startQuest(createNearbyPack(location), location);
+    } catch (error) {
+      console.error("Could not get player location:", error);
+      const fallbackPack = getQuestPack(fallbackPackId) ?? DEFAULT_PACK;
+      await startQuest(fallbackPack, null, strings.locationUnavailable(fallbackPack.campusName));
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  // Back to the pack picker, discarding any saved tour and leaving the class
+  const showPackPicker = () => {
+    clearSession();
+    prefetcher.reset();
+    setClassroom(null);
+    setClassroomState(null);
+    setSavedSession(null);
+    setMessages([]);
+    setFeedbackMessage(null);
+    setLoadError(null);
+    setFailedTurn(null);
+    setGameState(INITIAL_GAME_STATE);
+  };
+
+  const resumeQuest = async (session: SavedSession) => {
+    const savedPack = resolveSavedPack(session);
+    if (!savedPack) {
+      // The pack was removed since this tour was saved
+      showPackPicker();
+      return;
+    }
+
+    retryLoad.current = () => resumeQuest(session);
+    setLoadError(null);
+    setFailedTurn(null);
+    prefetcher.reset();
+    setSavedSession(null);
+    setPack(savedPack);
+    setGameState({ ...session.gameState, status: 'loading' });
+
+    // The original turns (before bridging) are what the model actually produced
+    const previousTurns = session.messages
+      .filter(m => m.role === Sender.MODEL && m.structuredContent)
+      .map(m => m.structuredContent as GameTurnData);
+
+    try {
+      const location = session.gameState.location;
+      await questProvider.initChat({ pack: savedPack, topicIds: session.gameState.topicIds, lat: location?.lat, lng: location?.lng, previousTurns, language });
+      setMessages(session.messages);
+
+      const { activeChallenge, currentTurn, maxTurns, difficulty } = session.gameState;
+      if (activeChallenge) {
+        setGameState({ ...session.gameState, status: 'playing' });
+        if (currentTurn < maxTurns) prefetcher.prefetch(currentTurn + 1, difficulty);
+      } else if (previousTurns.length >= session.gameState.maxTurns) {
+        // Saved right after the last correct answer
+        clearSession();
+        setGameState({ ...session.gameState, status: 'finished' });
+      } else {
+        // Saved while the next stop was loading
+        await loadTurn(previousTurns.length + 1, maxTurns, difficulty);
+      }
+    } catch (error) {
+      console.error("Failed to resume game:", error);
+      setLoadError(error instanceof Error ? error.message : String(error));
+      setGameState(prev => ({ ...prev, status: 'error' }));
+    }
+  };
+
+  // Initialize Game: offer to continue a saved tour, otherwise the pack picker is shown
+  useEffect(() => {
+    const session = loadSession();
+    if (session && resolveSavedPack(session)) {
+      setSavedSession(session);
+    }
   }, []);
 
   // Step 1: Handle English Concept Input
   const handleEnglishSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!englishInput.trim() || isProcessing || !gameState.activeChallenge) return;
-
-    const userInput = englishInput;
+    const userInput = sanitizeLearnerText(englishInput);
+    if (!userInput || isProcessing || !gameState.activeChallenge) return;
     setEnglishInput('');
+
+    // GUARD: answers that try to instruct the model, or aren't fit for class, never leave the browser.
+    // They go into the teacher's log instead of the chat.
+    const blockReason = screenLearnerText(userInput);
+    if (blockReason) {
+        const blocked = { turn: gameState.currentTurn, text: userInput, reason: blockReason, at: Date.now() };
+        setGameState(prev => ({ ...prev, blockedInputs: [...prev.blockedInputs, blocked] }));
+        setFeedbackMessage({ text: strings.inputBlocked, type: 'error' });
+        return;
+    }
+
     setIsProcessing(true);
 
     // Add user's English answer to chat
@@ -85,21 +362,49 @@ export const GameInterface: React.FC = () => {
         step: 'concept'
     };
     setMessages(prev => [...prev, userMsg]);
+    setFeedbackMessage(null);
+
+    // Only ever write the evaluation and bridge into the stop they were asked for
+    const bridgeTurn = gameState.currentTurn;
+    const challenge = gameState.activeChallenge;
+
+    // EVALUATE: how close is the idea to the stop's concept? Shown under the student's bubble.
+    const evaluation = await questProvider.evaluateConcept(userInput, challenge, language);
+    setMessages(prev => prev.map(m => m.id === userMsg.id ? { ...m, conceptEvaluation: evaluation } : m));
+
+    // One guided retry for an answer that misses the point; after that we move on regardless
+    if (evaluation.verdict === 'off-target' && !gameState.conceptRetried) {
+        setGameState(prev => prev.currentTurn !== bridgeTurn ? prev : { ...prev, conceptEvaluation: evaluation, conceptRetried: true });
+        setFeedbackMessage({
+            text: [evaluation.reason, evaluation.guidance, strings.tryOnceMore].filter(Boolean).join(' '),
+            type: 'error'
+        });
+        setIsProcessing(false);
+        return;
+    }
+    setGameState(prev => prev.currentTurn !== bridgeTurn ? prev : { ...prev, conceptEvaluation: evaluation });
+
+    const showBridge = (text: string) => setGameState(prev => prev.currentTurn !== bridgeTurn ? prev : {
+        ...prev,
+        activeChallenge: prev.activeChallenge ? {
+            ...prev.activeChallenge,
+            spanishConcept: text // Replace static concept with dynamic bridge
+        } : null,
+        turnStep: 'grammar'
+    });
 
     try {
         // BRIDGE: Call AI to acknowledge user input and pivot to the target concept
         // e.g. User says "Walk around", Target is "Take photos" -> AI says "Walking is nice, but here people famously take photos."
-        const bridgeText = await generateBridgeResponse(userInput, gameState.activeChallenge.spanishConcept);
+        // It types out in the Phase 2 header as it streams in.
+        const bridgeText = await questProvider.generateBridgeResponse(userInput, challenge.spanishConcept, language, textSoFar => {
+            setIsProcessing(false);
+            setIsBridging(true);
+            showBridge(textSoFar);
+        });
 
         // Update the active challenge with this new personalized context
-        setGameState(prev => ({
-            ...prev,
-            activeChallenge: prev.activeChallenge ? {
-                ...prev.activeChallenge,
-                spanishConcept: bridgeText // Replace static concept with dynamic bridge
-            } : null,
-            turnStep: 'grammar'
-        }));
+        showBridge(bridgeText);
 
     } catch (error) {
         console.error("Bridge generation failed", error);
@@ -107,14 +412,21 @@ export const GameInterface: React.FC = () => {
         setGameState(prev => ({ ...prev, turnStep: 'grammar' }));
     } finally {
         setIsProcessing(false);
+        setIsBridging(false);
     }
   };
 
-  // Step 2: Handle Spanish Option Select
+  // Step 2: Handle Spanish Answer (an option button, or typed text in 'typed' mode)
   const handleOptionSelect = async (selectedOption: string) => {
     if (isProcessing || !gameState.activeChallenge) return;
+    const isTyped = gameState.answerMode === 'typed';
+    if (!isTyped && gameState.wrongAnswers.includes(selectedOption)) return;
 
-    const isCorrect = selectedOption === gameState.activeChallenge.correctAnswer;
+    const challenge = gameState.activeChallenge;
+    const grade = isTyped ? gradeAnswer(selectedOption, challenge, language) : null;
+    const isCorrect = grade ? grade.verdict === 'correct' : selectedOption === challenge.correctAnswer;
+    // What this particular wrong pick gets wrong
+    const optionFeedback = isCorrect ? null : feedbackForAnswer(selectedOption, challenge, language);
 
     // Add User Message
     const userMsg: ChatMessage = {
@@ -122,14 +434,24 @@ export const GameInterface: React.FC = () => {
       role: Sender.USER,
       text: selectedOption,
       isCorrect: isCorrect,
+      misconception: optionFeedback?.tag,
       timestamp: Date.now(),
       step: 'grammar'
     };
     setMessages(prev => [...prev, userMsg]);
 
-    if (!isCorrect) {
+    if (optionFeedback) {
+      setGameState(prev => ({
+        ...prev,
+        attempts: prev.attempts + 1,
+        wrongAnswers: [...prev.wrongAnswers, selectedOption]
+      }));
+      // The explanation gives the answer away, so it waits until the hint ladder is used up
+      const hintsLeft = gameState.revealedHints.length < HINT_LADDER.length;
       setFeedbackMessage({
-        text: `Incorrect. ${gameState.activeChallenge.explanation} Try again!`,
+        text: grade
+          ? `${grade.feedback} ${strings.tryAgain}`
+          : hintsLeft ? strings.incorrectTakeHint(optionFeedback.feedback) : strings.incorrectExplained(`${optionFeedback.feedback} ${challenge.explanation}`),
         type: 'error'
       });
       return;
@@ -137,11 +459,45 @@ export const GameInterface: React.FC = () => {
 
     // SUCCESS
     setFeedbackMessage({
-      text: "¡Correcto! Next stop...",
+      text: grade?.accentMissed ? `${grade.feedback} ${strings.nextStop}` : strings.correctNextStop,
       type: 'success'
     });
     setIsProcessing(true);
-    setGameState(prev => ({ ...prev, activeChallenge: null })); // Disable inputs
+
+    // Missed at least once: keep it for Review mode, as the model first wrote it (before bridging)
+    if (gameState.wrongAnswers.length > 0) {
+      const original = [...messages].reverse().find(m => m.role === Sender.MODEL && m.structuredContent)?.structuredContent;
+      addMissedItem(pack.id, gameState.currentTurn, original ?? challenge);
+    }
+
+    const result: StopResult = {
+      turn: gameState.currentTurn,
+      locationName: challenge.locationName,
+      grammarTarget: challenge.grammarTarget || pack.stops[gameState.currentTurn - 1]?.grammarTarget || 'General',
+      question: challenge.question,
+      correctAnswer: challenge.correctAnswer,
+      explanation: challenge.explanation,
+      wrongAnswers: gameState.wrongAnswers,
+      misconceptions: gameState.wrongAnswers.map(answer => feedbackForAnswer(answer, challenge, language).tag),
+      firstTryCorrect: gameState.wrongAnswers.length === 0,
+      hintsUsed: gameState.hintsUsed,
+      difficulty: gameState.difficulty,
+      conceptVerdict: gameState.conceptEvaluation?.verdict,
+      conceptRetried: gameState.conceptRetried,
+      bridge: challenge.spanishConcept,
+      startedAt: gameState.challengeStartedAt ?? Date.now(),
+      completedAt: Date.now()
+    };
+    // The next stop's level follows how the last few went
+    const nextDifficulty = adaptDifficulty([...gameState.results, result], gameState.difficulty, gameState.pinnedDifficulty);
+
+    setGameState(prev => ({
+      ...prev,
+      attempts: prev.attempts + 1,
+      results: [...prev.results, result],
+      difficulty: nextDifficulty,
+      activeChallenge: null // Disable inputs
+    }));
 
     // Wait for visual feedback
     await new Promise(r => setTimeout(r, 1500));
@@ -149,44 +505,322 @@ export const GameInterface: React.FC = () => {
 
     // Check End Game
     if (gameState.currentTurn >= gameState.maxTurns) {
+        clearSession();
         setGameState(prev => ({ ...prev, status: 'finished' }));
         setIsProcessing(false);
         return;
     }
 
-    // Load Next Turn
+    // Load Next Turn (usually already prefetched while the student was answering)
     try {
-        setGameState(prev => ({ ...prev, currentTurn: prev.currentTurn + 1 }));
-        const response = await sendMessage(`NEXT_TURN_${gameState.currentTurn + 1}`);
-        
-        const modelMsg: ChatMessage = {
-          id: uuidv4(),
-          role: Sender.MODEL,
-          structuredContent: response.turnData,
-          groundingChunks: response.groundingChunks,
-          timestamp: Date.now(),
-          step: 'concept'
-        };
-        
-        setMessages(prev => [...prev, modelMsg]);
-        setGameState(prev => ({ 
-            ...prev, 
-            activeChallenge: response.turnData,
-            turnStep: 'concept' 
-        }));
+        await loadTurn(gameState.currentTurn + 1, gameState.maxTurns, nextDifficulty);
     } catch (error) {
         console.error("Error fetching next turn", error);
+        setFailedTurn({ turnNumber: gameState.currentTurn + 1, difficulty: nextDifficulty });
     } finally {
         setIsProcessing(false);
     }
   };
 
+  // The inline Retry after the next stop failed to load
+  const retryTurn = async () => {
+    if (!failedTurn || isProcessing) return;
+    setFailedTurn(null);
+    setIsProcessing(true);
+    try {
+        await loadTurn(failedTurn.turnNumber, gameState.maxTurns, failedTurn.difficulty);
+    } catch (error) {
+        console.error("Error fetching next turn", error);
+        setFailedTurn(failedTurn);
+    } finally {
+        setIsProcessing(false);
+    }
+  };
+
+  // Next rung of the hint ladder for the active challenge; every hint counts against the stop's points
+  const revealHint = () => {
+    const challenge = gameState.activeChallenge;
+    if (!challenge || isProcessing) return;
+    const crossedOut = [...gameState.wrongAnswers, ...eliminatedOptions];
+    // Scripted turns leave grammarTarget to the pack's itinerary
+    const grammarTarget = challenge.grammarTarget || pack.stops[gameState.currentTurn - 1]?.grammarTarget;
+    const hint = buildHint(gameState.revealedHints.length, { ...challenge, grammarTarget }, crossedOut, gameState.answerMode, strings);
+    if (!hint) return;
+    setGameState(prev => ({
+      ...prev,
+      hintsUsed: prev.hintsUsed + 1,
+      revealedHints: [...prev.revealedHints, hint]
+    }));
+  };
+
+  // Join a teacher's class under the name typed on the start screen
+  const joinClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!classCode.trim() || isJoining) return;
+    if (!studentName.trim()) {
+      setJoinError(strings.nameFirst);
+      return;
+    }
+
+    setIsJoining(true);
+    setJoinError(null);
+    try {
+      const joined = await joinClassroom(classCode, studentName);
+      if (!getQuestPack(joined.state.packId)) {
+        throw new Error(strings.unknownClassTour);
+      }
+      const membership = { code: joined.state.code, studentId: joined.studentId, name: studentName.trim() };
+      saveClassroomSeat(membership);
+      setClassroomState(joined.state);
+      setClassroom(membership);
+    } catch (error) {
+      setJoinError(error instanceof Error ? error.message : strings.joinFailed);
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  // The picker on the start screen; remembered for the next visit
+  const changeLanguage = (next: LanguageId) => {
+    setLanguage(next);
+    saveLanguage(next);
+  };
+
+  // Teacher's topic choice for the next tour; at least one topic stays selected
+  const toggleTopic = (topicId: string) => {
+    const current = selectedTopicIds ?? DEFAULT_TOPIC_IDS;
+    const next = current.includes(topicId) ? current.filter(id => id !== topicId) : [...current, topicId];
+    if (next.length > 0) setSelectedTopicIds(next);
+  };
+
+  const currentStreak = summarizeResults(gameState.results).currentStreak;
+  const isClassPaused = !!classroom && !!classroomState?.paused;
+  // Between stops, with the next one not opened yet
+  const isWaitingForTeacher = !!classroom && !!classroomState && !gameState.activeChallenge && classroomState.openStop <= gameState.currentTurn;
+  const eliminatedOptions = gameState.revealedHints.filter(hint => hint.option).map(hint => hint.option as string);
+  const highlightedRule = [...gameState.revealedHints].reverse().find(hint => hint.ruleTitle)?.ruleTitle;
+
   // -- RENDER --
 
-  if (gameState.status === 'loading' || gameState.status === 'intro') {
+  if (isReviewing) {
+    return <ReviewSession questProvider={questProvider} onExit={() => setIsReviewing(false)} strings={strings} />;
+  }
+
+  if (isInstructorView) {
+    return <InstructorView onExit={() => setIsInstructorView(false)} />;
+  }
+
+  if (isClassroomDashboard) {
+    return <ClassroomDashboard topicIds={selectedTopicIds} language={language} difficulty={selectedDifficulty} onExit={() => setIsClassroomDashboard(false)} />;
+  }
+
+  const exportSession = (format: 'json' | 'csv') =>
+    downloadSession(buildSessionExport(gameState.studentName, pack, gameState, messages), format);
+
+  const journal = showJournal && (
+    <Journal session={buildSessionExport(gameState.studentName, pack, gameState, messages)} strings={strings} onClose={() => setShowJournal(false)} />
+  );
+
+  // Each stop's opening message, in order, with its grounded Maps link if there was one
+  const visitedStops: VisitedStop[] = messages
+    .filter(m => m.role === Sender.MODEL && m.step === 'concept' && m.structuredContent)
+    .map(m => ({
+      locationName: m.structuredContent!.locationName,
+      mapUri: m.groundingChunks?.find(c => c.maps?.uri)?.maps?.uri,
+    }));
+
+  const dueReviewCount = gameState.status === 'intro' || gameState.status === 'finished' ? getDueCards().length : 0;
+
+  if (gameState.status === 'intro' && savedSession) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center bg-[#f0ebe0] p-4 text-center relative overflow-hidden">
+        <div className="absolute inset-0 opacity-10 bg-[url('/textures/aged-paper.svg')]"></div>
+        <div className="z-10 bg-white/50 backdrop-blur-sm p-10 rounded-xl border-2 border-stone-300 shadow-xl max-w-md w-full">
+          <div className="mb-6 relative inline-block">
+             <GraduationCap className="w-20 h-20 text-amber-700" />
+             <div className="absolute -bottom-2 -right-2">
+               <MapIcon className="w-8 h-8 text-stone-800" />
+             </div>
+          </div>
+          <h1 className="text-4xl font-serif font-bold text-stone-800 mb-3">{resolveSavedPack(savedSession)?.copy.title}</h1>
+          <p className="text-stone-600 font-hand text-xl mb-8">
+            {strings.leftOffAt(savedSession.gameState.currentTurn, savedSession.gameState.maxTurns)}
+          </p>
+          <div className="flex flex-col gap-3">
+            <button onClick={() => resumeQuest(savedSession)} className="px-8 py-3 bg-amber-700 text-white rounded-full shadow-lg font-ui font-bold hover:bg-amber-800 transition-colors flex items-center justify-center gap-2">
+              {strings.continueTour} <ArrowRight className="w-4 h-4" />
+            </button>
+            <button onClick={showPackPicker} className="px-8 py-3 bg-white text-stone-700 border-2 border-stone-300 rounded-full font-ui font-bold hover:border-amber-600 transition-colors">
+              {strings.startOver}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (gameState.status === 'intro') {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center bg-[#f0ebe0] p-4 text-center relative overflow-hidden">
+        <div className="absolute inset-0 opacity-10 bg-[url('/textures/aged-paper.svg')]"></div>
+        <div className="z-10 bg-white/50 backdrop-blur-sm p-10 rounded-xl border-2 border-stone-300 shadow-xl max-w-md w-full">
+          <div className="mb-6 relative inline-block">
+             <GraduationCap className="w-20 h-20 text-amber-700" />
+             <div className="absolute -bottom-2 -right-2">
+               <MapIcon className="w-8 h-8 text-stone-800" />
+             </div>
+          </div>
+          <h1 className="text-4xl font-serif font-bold text-stone-800 mb-3">Aventura Gramatical</h1>
+          <p className="text-stone-600 font-hand text-xl mb-6">{strings.tagline}</p>
+          <label className="mb-4 font-ui text-xs text-stone-600 flex items-center justify-center gap-2">
+            {strings.language}
+            <select
+              value={language}
+              onChange={(e) => changeLanguage(e.target.value as LanguageId)}
+              className="bg-white border border-stone-300 rounded px-2 py-1 text-stone-700"
+            >
+              {LANGUAGES.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </label>
+          <input
+            type="text"
+            value={studentName}
+            onChange={(e) => setStudentName(e.target.value)}
+            placeholder={strings.namePlaceholder}
+            className="w-full mb-4 px-4 py-2 rounded-xl border-2 border-stone-300 focus:border-amber-500 outline-none font-hand text-xl text-stone-800 placeholder:text-stone-400 bg-white"
+          />
+          <div className="flex flex-col gap-3">
+            {QUEST_PACKS.map(questPack => (
+              <button
+                key={questPack.id}
+                onClick={() => startQuest(questPack)}
+                disabled={isLocating}
+                className="text-left px-5 py-4 bg-white border-2 border-stone-300 rounded-xl hover:border-amber-600 hover:bg-amber-50 transition-colors flex items-center justify-between gap-3"
+              >
+                <div>
+                  <div className="font-serif text-xl font-bold text-stone-800">{questPack.campusName}</div>
+                  <div className="font-ui text-xs text-stone-500 uppercase tracking-wider">{strings.stopCount(questPack.turnCount)} · {questPack.locationDescription}</div>
+                </div>
+                <ArrowRight className="w-5 h-5 text-amber-700 shrink-0" />
+              </button>
+            ))}
+          </div>
+
+          <label className="mt-4 font-ui text-xs text-stone-600 flex items-center justify-center gap-2">
+            <input
+              type="checkbox"
+              checked={answerMode === 'typed'}
+              onChange={(e) => setAnswerMode(e.target.checked ? 'typed' : 'choice')}
+            />
+            {strings.typedMode}
+          </label>
+
+          <label className="mt-2 font-ui text-xs text-stone-600 flex items-center justify-center gap-2">
+            {strings.difficulty}
+            <select
+              value={selectedDifficulty ?? ''}
+              onChange={(e) => setSelectedDifficulty((e.target.value || null) as DifficultyLevel | null)}
+              className="bg-white border border-stone-300 rounded px-2 py-1 text-stone-700"
+            >
+              <option value="">{strings.difficultyAdaptive}</option>
+              {DIFFICULTY_LEVELS.map(level => (
+                <option key={level} value={level}>{strings.difficultyLevels[level]}</option>
+              ))}
+            </select>
+          </label>
+
+          {/* GRAMMAR TOPICS: the script only covers each pack's own topics, so the chooser needs a live model */}
+          {questProvider.id !== 'scripted' && (
+            <fieldset className="mt-4 text-left font-ui text-xs text-stone-600">
+              <legend className="font-bold uppercase tracking-wider text-stone-500 mb-2">
+                {strings.grammarTopics} {selectedTopicIds === null && <span className="normal-case font-normal">{strings.eachTourDefault}</span>}
+              </legend>
+              <div className="grid grid-cols-2 gap-1">
+                {GRAMMAR_TOPICS.map(topic => (
+                  <label key={topic.id} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={(selectedTopicIds ?? DEFAULT_TOPIC_IDS).includes(topic.id)}
+                      onChange={() => toggleTopic(topic.id)}
+                    />
+                    {topic.icon} {topic.name}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          {dueReviewCount > 0 && (
+            <button onClick={() => setIsReviewing(true)} className="mt-4 w-full px-8 py-3 bg-white text-stone-700 border-2 border-amber-600 rounded-full font-ui font-bold hover:bg-amber-50 transition-colors flex items-center justify-center gap-2">
+              <RotateCcw className="w-4 h-4" /> {strings.reviewMissed(dueReviewCount)}
+            </button>
+          )}
+
+          {/* CLASSROOM: students join with the teacher's code; everyone plays the same stops */}
+          <form onSubmit={joinClass} className="mt-4 flex gap-2">
+            <input
+              type="text"
+              value={classCode}
+              onChange={(e) => setClassCode(e.target.value.toUpperCase())}
+              placeholder={strings.classCodePlaceholder}
+              maxLength={8}
+              className="flex-1 min-w-0 px-4 py-2 rounded-xl border-2 border-stone-300 focus:border-amber-500 outline-none font-mono text-lg tracking-widest text-stone-800 placeholder:text-stone-400 placeholder:tracking-normal bg-white"
+            />
+            <button
+              type="submit"
+              disabled={!classCode.trim() || isJoining}
+              className="px-5 py-2 bg-stone-700 disabled:bg-stone-400 text-white rounded-xl font-ui font-bold text-sm hover:bg-stone-800 transition-colors flex items-center gap-2"
+            >
+              {isJoining && <Loader2 className="w-4 h-4 animate-spin" />} {strings.joinClass}
+            </button>
+          </form>
+          {joinError && <p className="mt-2 font-ui text-xs text-red-700">{joinError}</p>}
+
+          <div className="mt-4 flex justify-center gap-6">
+            <button onClick={() => setIsInstructorView(true)} className="font-ui text-xs font-bold uppercase tracking-wider text-stone-500 hover:text-amber-800 flex items-center justify-center gap-1">
+              <Users className="w-4 h-4" /> {strings.instructorView}
+            </button>
+            <button onClick={() => setIsClassroomDashboard(true)} className="font-ui text-xs font-bold uppercase tracking-wider text-stone-500 hover:text-amber-800 flex items-center justify-center gap-1">
+              <School className="w-4 h-4" /> {strings.runClass}
+            </button>
+          </div>
+
+          {/* NEAR ME: needs a live model to find real places, so it's hidden for the offline script */}
+          {questProvider.id !== 'scripted' && (
+            <div className="mt-6 pt-6 border-t border-stone-300 flex flex-col gap-3">
+              <button
+                onClick={startNearbyQuest}
+                disabled={isLocating}
+                className="px-8 py-3 bg-amber-700 disabled:bg-stone-400 text-white rounded-full shadow-lg font-ui font-bold hover:bg-amber-800 transition-colors flex items-center justify-center gap-2"
+              >
+                {isLocating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Compass className="w-4 h-4" />}
+                {isLocating ? strings.locating : strings.nearMe}
+              </button>
+              <label className="font-ui text-xs text-stone-500 flex items-center justify-center gap-2">
+                {strings.locationFallback}
+                <select
+                  value={fallbackPackId}
+                  onChange={(e) => setFallbackPackId(e.target.value)}
+                  className="bg-white border border-stone-300 rounded px-2 py-1 text-stone-700"
+                >
+                  {QUEST_PACKS.map(questPack => (
+                    <option key={questPack.id} value={questPack.id}>{questPack.campusName}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (gameState.status === 'loading') {
     return (
       <div className="h-screen flex flex-col items-center justify-center bg-[#f0ebe0] p-4 text-center relative overflow-hidden">
-        <div className="absolute inset-0 opacity-10 bg-[url('https://www.transparenttextures.com/patterns/aged-paper.png')]"></div>
+        <div className="absolute inset-0 opacity-10 bg-[url('/textures/aged-paper.svg')]"></div>
         <div className="z-10 bg-white/50 backdrop-blur-sm p-10 rounded-xl border-2 border-stone-300 shadow-xl max-w-md w-full">
           <div className="mb-6 relative inline-block">
              <GraduationCap className="w-20 h-20 text-amber-700 animate-bounce" />
@@ -194,11 +828,44 @@ export const GameInterface: React.FC = () => {
                <MapIcon className="w-8 h-8 text-stone-800" />
              </div>
           </div>
-          <h1 className="text-4xl font-serif font-bold text-stone-800 mb-3">Aventura Mizzou</h1>
-          <p className="text-stone-600 font-hand text-xl mb-8">Exploring campus mysteries...</p>
+          <h1 className="text-4xl font-serif font-bold text-stone-800 mb-3">{pack.copy.title}</h1>
+          <p className="text-stone-600 font-hand text-xl mb-8">{pack.copy.tagline}</p>
           <div className="flex justify-center items-center gap-3 text-amber-800 font-ui font-bold text-sm uppercase tracking-widest">
             <Loader2 className="animate-spin w-4 h-4" />
-            Walking to The Columns...
+            {pack.copy.loadingText}
+          </div>
+          {incomingTurn?.locationName && (
+            <p className="mt-4 font-hand text-xl text-stone-700 animate-in fade-in duration-500">
+              {strings.firstStop} <span className="font-bold">{incomingTurn.locationName}</span>
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (gameState.status === 'error') {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center bg-[#f0ebe0] p-4 text-center relative overflow-hidden">
+        <div className="absolute inset-0 opacity-10 bg-[url('/textures/aged-paper.svg')]"></div>
+        <div className="z-10 bg-white/50 backdrop-blur-sm p-10 rounded-xl border-2 border-stone-300 shadow-xl max-w-md w-full" role="alert">
+          <AlertTriangle className="w-16 h-16 text-amber-700 mx-auto mb-4" aria-hidden="true" />
+          <h1 className="text-3xl font-serif font-bold text-stone-800 mb-3">{strings.tourFailed}</h1>
+          <p className="text-stone-600 font-hand text-xl mb-2">{strings.tourFailedHelp}</p>
+          {loadError && <p className="text-stone-400 font-ui text-xs mb-6">{loadError}</p>}
+          <div className="flex justify-center gap-3">
+            <button
+              onClick={() => retryLoad.current?.()}
+              className="px-5 py-2 bg-amber-700 text-white rounded-full font-ui font-bold text-xs uppercase tracking-wider hover:bg-amber-800 flex items-center gap-2"
+            >
+              <RotateCcw className="w-4 h-4" /> {strings.retry}
+            </button>
+            <button
+              onClick={showPackPicker}
+              className="px-5 py-2 bg-white text-stone-700 border-2 border-stone-300 rounded-full font-ui font-bold text-xs uppercase tracking-wider hover:border-amber-600 flex items-center gap-2"
+            >
+              <ArrowLeft className="w-4 h-4" /> {strings.backToTours}
+            </button>
           </div>
         </div>
       </div>
@@ -207,14 +874,35 @@ export const GameInterface: React.FC = () => {
 
   if (gameState.status === 'finished') {
     return (
-      <div className="h-screen flex flex-col items-center justify-center bg-[#f0ebe0] relative overflow-hidden">
-        <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/aged-paper.png')] opacity-20"></div>
-        <div className="z-10 text-center p-8 bg-white shadow-2xl rounded-2xl border-4 border-amber-600 max-w-lg mx-4 animate-in zoom-in duration-500">
+      <div className="h-screen flex flex-col items-center bg-[#f0ebe0] relative overflow-y-auto py-8">
+        <div className="absolute inset-0 bg-[url('/textures/aged-paper.svg')] opacity-20"></div>
+        {journal}
+        <div className="z-10 my-auto text-center p-8 bg-white shadow-2xl rounded-2xl border-4 border-amber-600 max-w-2xl mx-4 animate-in zoom-in duration-500">
           <Trophy className="w-24 h-24 text-yellow-500 mx-auto mb-6 drop-shadow-lg" />
-          <h1 className="text-5xl font-serif font-bold text-stone-900 mb-4">Mizzou Master!</h1>
-          <p className="font-hand text-2xl text-stone-600 mb-8">You've graduated from the Se Impersonal Quest.</p>
-          <button onClick={() => window.location.reload()} className="px-8 py-4 bg-amber-700 text-white rounded-full shadow-xl font-ui font-bold text-lg hover:bg-amber-800 transform hover:scale-105 transition-all">
-            Start New Semester
+          <h1 className="text-5xl font-serif font-bold text-stone-900 mb-4">{pack.copy.finishTitle}</h1>
+          <p className="font-hand text-2xl text-stone-600 mb-8">{pack.copy.finishSubtitle}</p>
+          {/* REPORT CARD */}
+          <div className="mb-8 border-t border-stone-200 pt-6">
+            <ReportCard results={gameState.results} strings={strings} />
+          </div>
+          <div className="mb-4 flex justify-center gap-3">
+            <button onClick={() => exportSession('json')} className="px-4 py-2 bg-white text-stone-700 border-2 border-stone-300 rounded-full font-ui font-bold text-xs uppercase tracking-wider hover:border-amber-600 flex items-center gap-2">
+              <Download className="w-4 h-4" /> {strings.exportJson}
+            </button>
+            <button onClick={() => exportSession('csv')} className="px-4 py-2 bg-white text-stone-700 border-2 border-stone-300 rounded-full font-ui font-bold text-xs uppercase tracking-wider hover:border-amber-600 flex items-center gap-2">
+              <Download className="w-4 h-4" /> {strings.exportCsv}
+            </button>
+            <button onClick={() => setShowJournal(true)} className="px-4 py-2 bg-white text-stone-700 border-2 border-stone-300 rounded-full font-ui font-bold text-xs uppercase tracking-wider hover:border-amber-600 flex items-center gap-2">
+              <NotebookPen className="w-4 h-4" /> {strings.journal}
+            </button>
+          </div>
+          {dueReviewCount > 0 && (
+            <button onClick={() => setIsReviewing(true)} className="mb-4 mx-auto px-6 py-3 bg-white text-stone-700 border-2 border-amber-600 rounded-full font-ui font-bold hover:bg-amber-50 transition-colors flex items-center justify-center gap-2">
+              <RotateCcw className="w-4 h-4" /> {strings.reviewMissed(dueReviewCount)}
+            </button>
+          )}
+          <button onClick={showPackPicker} className="px-8 py-4 bg-amber-700 text-white rounded-full shadow-xl font-ui font-bold text-lg hover:bg-amber-800 transform hover:scale-105 transition-all">
+            {pack.copy.restartLabel}
           </button>
         </div>
       </div>
@@ -233,56 +921,13 @@ export const GameInterface: React.FC = () => {
         <div className="p-4 border-b border-[#554e45] flex justify-between items-center bg-[#2c2824]">
           <div className="flex items-center gap-2">
             <Book className="w-5 h-5 text-amber-500" />
-            <h2 className="font-ui font-bold text-lg tracking-wide">Grammar Guide</h2>
+            <h2 className="font-ui font-bold text-lg tracking-wide">{strings.grammarGuide}</h2>
           </div>
           <button onClick={() => setShowCheatSheet(false)} className="md:hidden p-1 hover:bg-white/10 rounded">
             <X className="w-5 h-5" />
           </button>
         </div>
-        <div className="flex-1 overflow-y-auto p-4 space-y-6">
-          <section>
-            <h3 className="text-amber-500 font-ui font-bold text-sm uppercase mb-2 flex items-center gap-2">
-                <span>🛑</span> Se Impersonal
-            </h3>
-            <div className="bg-[#4a443e] p-3 rounded text-sm space-y-3">
-               <p className="italic text-stone-300 text-xs">Used for campus signs, rules, and general statements.</p>
-               <div className="border-l-2 border-amber-500 pl-2">
-                 <div className="text-amber-100 font-bold">Se + Singular Verb</div>
-                 <div className="text-stone-400 text-xs">Singular object.</div>
-                 <div className="font-mono text-xs mt-1 text-green-300">"Se necesita estudiante"</div>
-               </div>
-               <div className="border-l-2 border-amber-500 pl-2">
-                 <div className="text-amber-100 font-bold">Se + Plural Verb</div>
-                 <div className="text-stone-400 text-xs">Plural object.</div>
-                 <div className="font-mono text-xs mt-1 text-green-300">"Se venden libros"</div>
-               </div>
-            </div>
-          </section>
-          <section>
-             <h3 className="text-amber-500 font-ui font-bold text-sm uppercase mb-2 flex items-center gap-2">
-                <span>💥</span> Se Accidental
-             </h3>
-             <div className="bg-[#4a443e] p-3 rounded text-sm space-y-3">
-                <p className="italic text-stone-300 text-xs">Used for accidents (dropping keys, losing ID).</p>
-                <div className="text-stone-300 text-xs mb-1">Formula:</div>
-                <div className="bg-black/20 p-2 rounded font-mono text-xs text-center text-amber-200">
-                    Se + (me/te/le) + Verb
-                </div>
-                <ul className="space-y-2 mt-2">
-                    <li className="text-xs">
-                        <span className="text-amber-100 font-bold">Se me...</span> 
-                        <span className="text-stone-400"> (To me)</span>
-                        <div className="text-[10px]">"Se me olvidó la tarea"</div>
-                    </li>
-                    <li className="text-xs">
-                        <span className="text-amber-100 font-bold">Se le...</span> 
-                        <span className="text-stone-400"> (To him/her)</span>
-                        <div className="text-[10px]">"Se le cayó el café"</div>
-                    </li>
-                </ul>
-             </div>
-          </section>
-        </div>
+        <GrammarGuide topics={getTopics(gameState.topicIds)} highlightedRule={gameState.activeChallenge ? highlightedRule : undefined} />
       </div>
 
       {/* MAIN CONTENT */}
@@ -291,47 +936,105 @@ export const GameInterface: React.FC = () => {
         {/* HEADER */}
         <div className="bg-[#f0ebe0] border-b border-[#d6cebf] z-20">
             <div className="md:hidden flex items-center justify-between p-3">
-                <h1 className="font-serif font-bold text-lg text-stone-800">Mizzou Quest</h1>
-                <button onClick={() => setShowCheatSheet(true)} className="p-2 bg-white border border-stone-300 rounded text-stone-600">
-                    <Book className="w-5 h-5" />
+                <h1 className="font-serif font-bold text-lg text-stone-800">{pack.copy.shortTitle}</h1>
+                <button onClick={() => setShowCheatSheet(true)} className="p-2 bg-white border border-stone-300 rounded text-stone-600" aria-label={strings.grammarGuide}>
+                    <Book className="w-5 h-5" aria-hidden="true" />
                 </button>
             </div>
             <div className="px-4 md:px-8 py-3 bg-[#e6e2d6] flex items-center gap-4">
-                <span className="font-ui font-bold text-xs text-stone-500 uppercase tracking-wider whitespace-nowrap">Campus Tour</span>
+                <span className="font-ui font-bold text-xs text-stone-500 uppercase tracking-wider whitespace-nowrap">{pack.copy.tourLabel}</span>
                 <div className="flex-1 h-3 bg-white rounded-full border border-stone-300 overflow-hidden relative">
                     <div 
                         className="h-full bg-amber-600 transition-all duration-700 ease-out rounded-full" 
-                        style={{ width: `${((gameState.currentTurn - 1) / TOTAL_TURNS) * 100}%` }}
+                        style={{ width: `${((gameState.currentTurn - 1) / gameState.maxTurns) * 100}%` }}
                     ></div>
                 </div>
+                {currentStreak > 1 && (
+                    <div className="font-ui font-bold text-xs text-amber-800 whitespace-nowrap" title={strings.streakTitle}>
+                        🔥 {currentStreak}
+                    </div>
+                )}
+                <div
+                    className="font-ui font-bold text-[10px] text-stone-500 uppercase tracking-wider whitespace-nowrap"
+                    title={gameState.pinnedDifficulty ? strings.difficultyPinned : strings.difficultyAdapts}
+                >
+                    {strings.difficultyLevels[gameState.difficulty]}
+                </div>
                 <div className="font-hand text-stone-800 font-bold whitespace-nowrap text-lg">
-                    Stop {gameState.currentTurn} / {gameState.maxTurns}
+                    {strings.stopOf(gameState.currentTurn, gameState.maxTurns)}
                 </div>
+                <button
+                    onClick={() => setShowMap(prev => !prev)}
+                    className={`p-1 hover:text-amber-800 ${showMap ? 'text-amber-800' : 'text-stone-500'}`}
+                    title={showMap ? strings.hideMap : strings.showMap}
+                    aria-expanded={showMap}
+                >
+                    <MapIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => setShowJournal(true)} className="p-1 text-stone-500 hover:text-amber-800" title={strings.openJournal} aria-label={strings.journal}>
+                    <NotebookPen className="w-4 h-4" aria-hidden="true" />
+                </button>
+                <button onClick={() => exportSession('json')} className="p-1 text-stone-500 hover:text-amber-800" title={strings.exportJsonTitle}>
+                    <Download className="w-4 h-4" />
+                </button>
+                <button onClick={() => exportSession('csv')} className="font-ui font-bold text-[10px] text-stone-500 hover:text-amber-800 uppercase" title={strings.exportCsvTitle}>
+                    CSV
+                </button>
             </div>
+            {showMap && (
+                <TourMap
+                    stops={pack.stops}
+                    visited={visitedStops}
+                    completedTurns={gameState.results.map(result => result.turn)}
+                    currentTurn={gameState.status === 'playing' ? gameState.currentTurn : null}
+                    maxTurns={gameState.maxTurns}
+                />
+            )}
         </div>
 
         {/* CHAT AREA */}
         {/* Increased padding bottom to accommodate taller interactive panels */}
         <div className="flex-1 overflow-y-auto p-4 md:p-8 scroll-smooth bg-[#f0ebe0] relative pb-96">
-             <div className="absolute inset-0 opacity-5 bg-[url('https://www.transparenttextures.com/patterns/aged-paper.png')] pointer-events-none"></div>
+             <div className="absolute inset-0 opacity-5 bg-[url('/textures/aged-paper.svg')] pointer-events-none"></div>
           <div className="max-w-3xl mx-auto relative z-10">
             {messages.map((msg, idx) => (
-               <ChatMessageComponent key={msg.id} message={msg} />
+               <ChatMessageComponent key={msg.id} message={msg} strings={strings} />
             ))}
             
-            {isProcessing && (
+            {/* The next stop streaming in: header and English question first, the panel once it's complete */}
+            {isProcessing && incomingTurn?.locationName && <IncomingTurn turn={incomingTurn} strings={strings} />}
+
+            {isProcessing && !incomingTurn?.locationName && (
                <div className="flex justify-start w-full mb-8">
                  <div className="bg-white/80 border border-stone-200 px-6 py-4 flex items-center gap-3 rounded-xl shadow-sm">
                    <Loader2 className="w-5 h-5 text-amber-600 animate-spin" />
-                   <span className="font-hand text-xl text-stone-600">Thinking...</span>
+                   <span className="font-hand text-xl text-stone-600">
+                     {isWaitingForTeacher ? strings.waitingForTeacher : strings.thinking}
+                   </span>
                  </div>
                </div>
             )}
             
+            {/* The next stop failed to load: nothing else would happen without this */}
+            {failedTurn && !isProcessing && (
+               <div className="flex justify-start w-full mb-8" role="alert">
+                 <div className="bg-white/80 border border-red-200 px-6 py-4 flex items-center gap-3 rounded-xl shadow-sm">
+                   <AlertTriangle className="w-5 h-5 text-red-600" aria-hidden="true" />
+                   <span className="font-hand text-xl text-stone-600">{strings.stopFailed}</span>
+                   <button
+                     onClick={retryTurn}
+                     className="ml-2 px-3 py-1 bg-amber-700 text-white rounded-full font-ui font-bold text-xs uppercase tracking-wider hover:bg-amber-800 flex items-center gap-1"
+                   >
+                     <RotateCcw className="w-3 h-3" /> {strings.retry}
+                   </button>
+                 </div>
+               </div>
+            )}
+
             {/* Success Feedback displayed in chat stream (when panel closes) */}
             {feedbackMessage && feedbackMessage.type === 'success' && (
                 <div className="mb-8 p-4 rounded-xl border-2 flex items-center gap-3 animate-in slide-in-from-bottom-5 fade-in duration-300 bg-green-50 border-green-200 text-green-800">
-                    <CheckCircleIcon />
+                    <CheckCircleIcon label={strings.correct} />
                     <span className="font-hand text-xl font-bold">{feedbackMessage.text}</span>
                 </div>
             )}
@@ -339,15 +1042,29 @@ export const GameInterface: React.FC = () => {
           </div>
         </div>
 
-        {/* INTERACTIVE AREA */}
-        {gameState.activeChallenge && !isProcessing && (
+        {/* SCREEN READER ANNOUNCEMENTS: the chat and the panel change out of view, so say what happened */}
+        <div className="sr-only" aria-live="polite" aria-atomic="true">{stopAnnouncement}</div>
+        <div className="sr-only" aria-live="assertive" aria-atomic="true">
+            {feedbackMessage && `${feedbackMessage.type === 'success' ? strings.correct : strings.incorrect}. ${feedbackMessage.text}`}
+        </div>
+
+        {/* CLASSROOM PAUSE: the teacher has the floor */}
+        {gameState.activeChallenge && isClassPaused && (
+            <div className="absolute bottom-0 left-0 right-0 bg-stone-800 text-white z-20 p-6 flex items-center justify-center gap-3">
+                <Pause className="w-6 h-6 text-amber-400" />
+                <span className="font-hand text-2xl">{strings.classPaused}</span>
+            </div>
+        )}
+
+        {/* INTERACTIVE AREA (closed under the journal, so its number keys and focus stay out of the way) */}
+        {gameState.activeChallenge && !isProcessing && !isClassPaused && !showJournal && (
             <div className="absolute bottom-0 left-0 right-0 bg-[#e6e2d6] border-t border-[#d6cebf] shadow-[0_-10px_40px_rgba(0,0,0,0.1)] z-20 p-4 md:p-6 animate-in slide-in-from-bottom-full duration-500">
                 <div className="max-w-3xl mx-auto">
                     
                     {/* ERROR FEEDBACK (Visible inside the panel) */}
                     {feedbackMessage && feedbackMessage.type === 'error' && (
                         <div className="mb-4 p-3 rounded-lg flex items-center gap-3 bg-red-100 text-red-900 border border-red-300 animate-shake">
-                            <XCircleIcon />
+                            <XCircleIcon label={strings.incorrect} />
                             <span className="font-hand font-bold">{feedbackMessage.text}</span>
                         </div>
                     )}
@@ -357,10 +1074,10 @@ export const GameInterface: React.FC = () => {
                         <form onSubmit={handleEnglishSubmit} className="flex flex-col gap-3">
                             <div className="mb-1 text-center">
                                 <span className="bg-stone-700 text-white text-xs font-ui font-bold px-3 py-1 rounded-full uppercase tracking-wider">
-                                    Phase 1: The Concept
+                                    {strings.phaseConcept}
                                 </span>
                             </div>
-                            <p className="text-center font-hand text-xl text-stone-800 font-bold">
+                            <p id="concept-question" className="text-center font-hand text-xl text-stone-800 font-bold">
                                 {gameState.activeChallenge.englishQuestion}
                             </p>
                             <div className="relative">
@@ -368,7 +1085,9 @@ export const GameInterface: React.FC = () => {
                                     type="text"
                                     value={englishInput}
                                     onChange={(e) => setEnglishInput(e.target.value)}
-                                    placeholder="Type your answer in English..."
+                                    placeholder={strings.conceptPlaceholder}
+                                    maxLength={MAX_LEARNER_TEXT_LENGTH}
+                                    aria-labelledby="concept-question"
                                     className="w-full p-4 pr-12 rounded-xl border-2 border-stone-300 focus:border-amber-500 focus:ring-2 focus:ring-amber-200 outline-none font-hand text-2xl text-stone-800 placeholder:text-stone-400 bg-white"
                                     autoFocus
                                 />
@@ -376,8 +1095,9 @@ export const GameInterface: React.FC = () => {
                                     type="submit"
                                     disabled={!englishInput.trim()}
                                     className="absolute right-2 top-2 bottom-2 bg-amber-600 hover:bg-amber-700 disabled:bg-stone-300 text-white p-3 rounded-lg transition-colors"
+                                    aria-label={strings.submit}
                                 >
-                                    <Send className="w-5 h-5" />
+                                    <Send className="w-5 h-5" aria-hidden="true" />
                                 </button>
                             </div>
                         </form>
@@ -385,57 +1105,40 @@ export const GameInterface: React.FC = () => {
 
                     {/* PHASE 2: Spanish Grammar Options */}
                     {gameState.turnStep === 'grammar' && (
-                         <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-                            <div className="mb-3 text-center">
-                                <span className="bg-amber-700 text-white text-xs font-ui font-bold px-3 py-1 rounded-full uppercase tracking-wider">
-                                    Phase 2: Spanish Grammar
-                                </span>
-                            </div>
-                            
-                            <div className="text-center mb-6">
-                                <p className="font-hand text-stone-600 text-lg mb-3">
-                                    {gameState.activeChallenge.spanishConcept}
-                                </p>
-                                <div className="bg-white p-4 rounded-xl border-2 border-dashed border-stone-400 shadow-sm inline-block min-w-[300px]">
-                                     <h3 className="font-serif text-2xl text-stone-800 font-bold leading-relaxed">
-                                        {gameState.activeChallenge.question}
-                                     </h3>
-                                </div>
-                            </div>
-
-                            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                                {gameState.activeChallenge.options.map((option, idx) => (
-                                    <button
-                                        key={idx}
-                                        onClick={() => handleOptionSelect(option)}
-                                        className="relative overflow-hidden group bg-white border-2 border-stone-300 hover:border-amber-600 hover:bg-amber-50 rounded-xl p-4 transition-all duration-200 shadow-sm hover:shadow-md active:scale-95"
-                                    >
-                                        <span className="relative z-10 font-hand text-2xl font-bold text-stone-800 group-hover:text-amber-800">
-                                            {option}
-                                        </span>
-                                        <div className="absolute inset-0 bg-amber-100 opacity-0 group-hover:opacity-20 transition-opacity"></div>
-                                    </button>
-                                ))}
-                            </div>
-                        </div>
+                        <>
+                            <GrammarChallenge
+                                challenge={gameState.activeChallenge}
+                                wrongAnswers={[...gameState.wrongAnswers, ...eliminatedOptions]}
+                                onSelect={handleOptionSelect}
+                                answerMode={gameState.answerMode}
+                                isConceptStreaming={isBridging}
+                                strings={strings}
+                            />
+                            <HintLadder hints={gameState.revealedHints} onReveal={revealHint} disabled={isBridging} strings={strings} />
+                        </>
                     )}
                 </div>
             </div>
         )}
 
       </div>
+      {journal}
     </div>
   );
 };
 
-const CheckCircleIcon = () => (
-    <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+// The system-wide "reduce motion" setting
+const prefersReducedMotion = () => window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+
+// Right and wrong are named, not just colored
+const CheckCircleIcon: React.FC<{ label: string }> = ({ label }) => (
+    <svg className="w-6 h-6 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" role="img" aria-label={label}>
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
     </svg>
 );
 
-const XCircleIcon = () => (
-    <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+const XCircleIcon: React.FC<{ label: string }> = ({ label }) => (
+    <svg className="w-6 h-6 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" role="img" aria-label={label}>
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z" />
     </svg>
 );
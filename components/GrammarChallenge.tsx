@@ -0,0 +1,145 @@
+
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { Send } from 'lucide-react';
+import { GameTurnData } from '../types';
+import { UiStrings, getStrings } from '../i18n';
+
+interface Props {
+  challenge: GameTurnData;
+  wrongAnswers: string[]; // Already-tried options are crossed out
+  onSelect: (option: string) => void; // Also receives the typed text in 'typed' mode
+  label?: string; // Defaults to the catalog's Phase 2 label
+  answerMode?: 'choice' | 'typed';
+  isConceptStreaming?: boolean; // The bridge sentence is still arriving
+  strings?: UiStrings; // Labels, placeholder, screen reader and keyboard copy; defaults to English
+}
+
+// Two or four options sit in pairs; three in a row
+const GRID_COLUMNS: Record<number, string> = { 2: 'md:grid-cols-2', 3: 'md:grid-cols-3', 4: 'md:grid-cols-2' };
+
+// Number keys only count when the student isn't typing somewhere
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Phase 2: the Spanish fill-in-the-blank and its option buttons. Shared by the tour and Review mode.
+ * Keys 1-n pick an option. Focus starts on the first option and moves to the next one still open
+ * after a wrong pick, since the tried button is disabled under the student's focus.
+ */
+export const GrammarChallenge: React.FC<Props> = ({ challenge, wrongAnswers, onSelect, label, answerMode = 'choice', isConceptStreaming = false, strings = getStrings() }) => {
+  const questionId = useId();
+  const optionRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const isChoice = answerMode === 'choice';
+
+  useEffect(() => {
+    if (!isChoice) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || isTypingTarget(e.target)) return;
+      const option = challenge.options[Number(e.key) - 1];
+      if (!/^[1-9]$/.test(e.key) || !option || wrongAnswers.includes(option)) return;
+      e.preventDefault();
+      onSelect(option);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isChoice, challenge, wrongAnswers, onSelect]);
+
+  // Keyed on content: the bridge rewrites the challenge object while it streams, and callers pass fresh arrays
+  const triedKey = wrongAnswers.join('\n');
+  useEffect(() => {
+    if (!isChoice) return;
+    const firstOpen = challenge.options.findIndex(option => !wrongAnswers.includes(option));
+    optionRefs.current[firstOpen]?.focus();
+  }, [isChoice, challenge.question, triedKey]);
+
+  return (
+  <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+    <div className="mb-3 text-center">
+        <span className="bg-amber-700 text-white text-xs font-ui font-bold px-3 py-1 rounded-full uppercase tracking-wider">
+            {label ?? strings.phaseGrammar}
+        </span>
+    </div>
+    
+    <div className="text-center mb-6">
+        <p className="font-hand text-stone-600 text-lg mb-3">
+            {challenge.spanishConcept}
+            {isConceptStreaming && <span className="inline-block w-2 h-5 ml-1 align-middle bg-stone-500 animate-pulse" aria-hidden="true"></span>}
+        </p>
+        <div className="bg-white p-4 rounded-xl border-2 border-dashed border-stone-400 shadow-sm inline-block min-w-[300px]">
+             <h3 id={questionId} className="font-serif text-2xl text-stone-800 font-bold leading-relaxed">
+                {challenge.question}
+             </h3>
+        </div>
+    </div>
+
+    {!isChoice ? <TypedAnswer onSubmit={onSelect} labelledBy={questionId} submitLabel={strings.submit} placeholder={strings.typedPlaceholder} /> : (
+    <>
+    <div role="group" aria-labelledby={questionId} className={`grid grid-cols-1 ${GRID_COLUMNS[challenge.options.length] ?? 'md:grid-cols-3'} gap-3`}>
+        {challenge.options.map((option, idx) => {
+            const isTried = wrongAnswers.includes(option);
+            return (
+            <button
+                key={idx}
+                ref={element => { optionRefs.current[idx] = element; }}
+                onClick={() => onSelect(option)}
+                disabled={isTried}
+                aria-label={strings.optionLabel(idx + 1, option, isTried)}
+                aria-keyshortcuts={idx < 9 ? String(idx + 1) : undefined}
+                className="relative overflow-hidden group bg-white border-2 border-stone-300 hover:border-amber-600 hover:bg-amber-50 focus-visible:outline-none focus-visible:ring-4 focus-visible:ring-amber-400 rounded-xl p-4 transition-all duration-200 shadow-sm hover:shadow-md active:scale-95 disabled:opacity-40 disabled:line-through disabled:pointer-events-none"
+            >
+                {idx < 9 && (
+                    <span className="absolute top-1 left-2 font-ui text-[10px] font-bold text-stone-400" aria-hidden="true">{idx + 1}</span>
+                )}
+                <span className="relative z-10 font-hand text-2xl font-bold text-stone-800 group-hover:text-amber-800">
+                    {option}
+                </span>
+                <div className="absolute inset-0 bg-amber-100 opacity-0 group-hover:opacity-20 transition-opacity"></div>
+            </button>
+            );
+        })}
+    </div>
+    <p className="hidden md:block mt-2 text-center font-ui text-[10px] text-stone-500 uppercase tracking-wider">
+        {strings.keyboardHint(Math.min(challenge.options.length, 9))}
+    </p>
+    </>
+    )}
+  </div>
+  );
+};
+
+// Free-text mode: no options to eliminate, the student writes the missing form
+const TypedAnswer: React.FC<{ onSubmit: (answer: string) => void; labelledBy: string; submitLabel: string; placeholder: string }> = ({ onSubmit, labelledBy, submitLabel, placeholder }) => {
+  const [answer, setAnswer] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!answer.trim()) return;
+    onSubmit(answer.trim());
+    setAnswer('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="relative max-w-md mx-auto">
+        <input
+            type="text"
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder={placeholder}
+            autoComplete="off"
+            autoCapitalize="off"
+            spellCheck={false}
+            aria-labelledby={labelledBy}
+            className="w-full p-4 pr-12 rounded-xl border-2 border-stone-300 focus:border-amber-500 focus:ring-2 focus:ring-amber-200 outline-none font-hand text-2xl text-stone-800 placeholder:text-stone-400 bg-white"
+            autoFocus
+        />
+        <button
+            type="submit"
+            disabled={!answer.trim()}
+            className="absolute right-2 top-2 bottom-2 bg-amber-600 hover:bg-amber-700 disabled:bg-stone-300 text-white p-3 rounded-lg transition-colors"
+            aria-label={submitLabel}
+        >
+            <Send className="w-5 h-5" aria-hidden="true" />
+        </button>
+    </form>
+  );
+};
@@ -0,0 +1,42 @@
+
+import React from 'react';
+import { GrammarTopic } from '../types';
+
+interface Props {
+  topics: GrammarTopic[];
+  highlightedRule?: string; // Rule title pointed at by the current hint
+}
+
+// Sidebar cheat sheet, one section per grammar topic on this tour
+export const GrammarGuide: React.FC<Props> = ({ topics, highlightedRule }) => (
+  <div className="flex-1 overflow-y-auto p-4 space-y-6">
+    {topics.map(topic => (
+      <section key={topic.id}>
+        <h3 className="text-amber-500 font-ui font-bold text-sm uppercase mb-2 flex items-center gap-2">
+          <span>{topic.icon}</span> {topic.name}
+        </h3>
+        <div className="bg-[#4a443e] p-3 rounded text-sm space-y-3">
+          <p className="italic text-stone-300 text-xs">{topic.summary}</p>
+          {topic.formula && (
+            <>
+              <div className="text-stone-300 text-xs mb-1">Formula:</div>
+              <div className="bg-black/20 p-2 rounded font-mono text-xs text-center text-amber-200">
+                {topic.formula}
+              </div>
+            </>
+          )}
+          {topic.rules.map(rule => (
+            <div
+              key={rule.title}
+              className={`border-l-2 pl-2 transition-colors ${rule.title === highlightedRule ? 'border-yellow-300 bg-amber-500/20 rounded-r ring-1 ring-yellow-300/60' : 'border-amber-500'}`}
+            >
+              <div className="text-amber-100 font-bold">{rule.title}</div>
+              <div className="text-stone-400 text-xs">{rule.description}</div>
+              <div className="font-mono text-xs mt-1 text-green-300">"{rule.example}"</div>
+            </div>
+          ))}
+        </div>
+      </section>
+    ))}
+  </div>
+);
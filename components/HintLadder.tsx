@@ -0,0 +1,37 @@
+import React from 'react';
+import { Lightbulb } from 'lucide-react';
+import { Hint } from '../types';
+import { HINT_LADDER } from '../services/hints';
+import { UiStrings, getStrings } from '../i18n';
+
+interface Props {
+  hints: Hint[]; // Revealed so far
+  onReveal: () => void;
+  disabled?: boolean;
+  strings?: UiStrings;
+}
+
+// Hints revealed for the active challenge, and the button for the next one (each costs points)
+export const HintLadder: React.FC<Props> = ({ hints, onReveal, disabled = false, strings = getStrings() }) => (
+  <div className="mt-4 space-y-2">
+    {hints.map((hint, idx) => (
+      <div key={idx} className="flex items-start gap-2 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 animate-in fade-in duration-300">
+        <span className="shrink-0 font-ui text-[10px] font-bold text-amber-700 uppercase tracking-wider mt-1">{strings.hintNumber(idx + 1)}</span>
+        <span className="font-ui text-sm text-stone-700">{hint.text}</span>
+      </div>
+    ))}
+    {hints.length < HINT_LADDER.length && (
+      <div className="text-center">
+        <button
+          type="button"
+          onClick={onReveal}
+          disabled={disabled}
+          className="inline-flex items-center gap-1 text-amber-700 hover:text-amber-900 disabled:text-stone-400 font-ui text-xs font-bold uppercase tracking-wider px-3 py-1 rounded border border-amber-200 hover:bg-amber-50 transition-colors"
+        >
+          <Lightbulb className="w-3 h-3" />
+          <span>{hints.length === 0 ? strings.needHint : strings.anotherHint} ({hints.length + 1}/{HINT_LADDER.length})</span>
+        </button>
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,211 @@
+
+import React, { useState } from 'react';
+import { ArrowLeft, Upload, X, Users, NotebookPen } from 'lucide-react';
+import { SessionExport, parseSessionFile } from '../services/transcriptExport';
+import { getStrings } from '../i18n';
+import { Journal } from './Journal';
+import { MISCONCEPTION_LABELS, countMisconceptions, rankMisconceptions } from '../services/misconceptions';
+import { BLOCK_REASON_LABELS } from '../services/inputGuard';
+
+interface Props {
+  onExit: () => void;
+}
+
+// Teacher screen: load several exported sessions and compare them stop by stop
+export const InstructorView: React.FC<Props> = ({ onExit }) => {
+  const [sessions, setSessions] = useState<SessionExport[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [journalSession, setJournalSession] = useState<SessionExport | null>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow re-importing the same file
+
+    const loaded: SessionExport[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        loaded.push(parseSessionFile(file.name, await file.text()));
+      } catch (error) {
+        failed.push(`${file.name}: ${error instanceof Error ? error.message : 'could not be read'}`);
+      }
+    }
+    setSessions(prev => [...prev, ...loaded]);
+    setErrors(failed);
+  };
+
+  const maxStops = Math.max(0, ...sessions.map(session => session.stops.length));
+  // Across everyone loaded; older exports without tags simply don't count
+  const misconceptions = rankMisconceptions(countMisconceptions(
+    sessions.flatMap(session => session.stops.flatMap(stop => stop.attempts.flatMap(attempt => attempt.misconception ?? [])))
+  ));
+  // Phase 1 answers that were kept from the model, for the teacher to follow up on
+  const blockedLog = sessions.flatMap(session => session.stops.flatMap(stop =>
+    (stop.blockedInputs ?? []).map(blocked => ({ ...blocked, studentName: session.studentName, turn: stop.turn }))
+  ));
+
+  return (
+    <div className="h-screen flex flex-col bg-[#f0ebe0] font-serif">
+      {/* HEADER */}
+      <div className="bg-[#3d3832] text-[#e6e2d6] px-4 md:px-8 py-3 flex items-center gap-4">
+        <button onClick={onExit} className="flex items-center gap-1 font-ui text-xs font-bold uppercase tracking-wider hover:text-amber-400">
+          <ArrowLeft className="w-4 h-4" /> Back
+        </button>
+        <div className="flex items-center gap-2 flex-1">
+          <Users className="w-5 h-5 text-amber-500" />
+          <h1 className="font-ui font-bold text-lg tracking-wide">Instructor View</h1>
+        </div>
+        <label className="cursor-pointer flex items-center gap-2 bg-amber-700 hover:bg-amber-800 text-white font-ui font-bold text-xs uppercase tracking-wider px-4 py-2 rounded-full">
+          <Upload className="w-4 h-4" /> Import JSON / CSV
+          <input type="file" accept=".json,.csv,application/json,text/csv" multiple onChange={handleFiles} className="hidden" />
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="mx-4 md:mx-8 mt-4 p-3 rounded-lg bg-red-100 text-red-900 border border-red-300 font-ui text-xs space-y-1">
+          {errors.map(error => <div key={error}>{error}</div>)}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto p-4 md:p-8">
+        {sessions.length === 0 ? (
+          <p className="text-center font-hand text-2xl text-stone-500 mt-16">
+            Import one or more exported session files to compare students side by side.
+          </p>
+        ) : (
+          <>
+          {(misconceptions.length > 0 || blockedLog.length > 0) && (
+          <div className="mb-4 flex flex-wrap items-start gap-4">
+          {misconceptions.length > 0 && (
+            <div className="p-4 bg-white rounded-lg shadow-sm font-ui max-w-xl">
+              <h2 className="text-xs font-bold uppercase tracking-wider text-stone-500 mb-2">Common misconceptions</h2>
+              <ul className="space-y-1 text-sm">
+                {misconceptions.map(({ tag, count }) => (
+                  <li key={tag} className="flex items-center gap-2">
+                    <span className="flex-1 text-stone-800">{MISCONCEPTION_LABELS[tag]}</span>
+                    <span className="font-bold text-red-700">{count}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {blockedLog.length > 0 && (
+            <div className="p-4 bg-white rounded-lg shadow-sm font-ui max-w-xl">
+              <h2 className="text-xs font-bold uppercase tracking-wider text-stone-500 mb-2">Blocked inputs</h2>
+              <ul className="space-y-2 text-sm">
+                {blockedLog.map((blocked, idx) => (
+                  <li key={idx}>
+                    <div className="text-[10px] text-stone-500 uppercase tracking-wider">
+                      {blocked.studentName || 'Unnamed student'} · Stop {blocked.turn} · {BLOCK_REASON_LABELS[blocked.reason]}
+                    </div>
+                    <div className="text-stone-800 break-words">"{blocked.text}"</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          </div>
+          )}
+          <table className="border-collapse bg-white shadow-sm rounded-lg overflow-hidden font-ui text-sm">
+            <thead>
+              <tr className="bg-[#e6e2d6]">
+                <th className="p-3 text-left text-xs uppercase text-stone-500 sticky left-0 bg-[#e6e2d6]">Stop</th>
+                {sessions.map((session, idx) => (
+                  <th key={idx} className="p-3 text-left align-top min-w-[200px] border-l border-stone-300">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <div className="font-serif text-lg text-stone-800">{session.studentName || 'Unnamed student'}</div>
+                        <div className="text-[10px] text-stone-500 uppercase tracking-wider">{session.packName}</div>
+                        <div className="text-xs text-stone-600 font-normal mt-1">
+                          {session.summary.firstTryCorrect}/{session.summary.stopsCompleted} first try · {session.summary.accuracy}%
+                        </div>
+                        <div className="text-[10px] text-stone-400 font-normal">
+                          {session.startedAt ? new Date(session.startedAt).toLocaleString() : '—'} · {session.status}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => setJournalSession(session)}
+                        className="p-1 text-stone-400 hover:text-amber-800"
+                        title="Study journal"
+                      >
+                        <NotebookPen className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setSessions(prev => prev.filter((_, i) => i !== idx))}
+                        className="p-1 text-stone-400 hover:text-red-700"
+                        title="Remove"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {Array.from({ length: maxStops }, (_, stopIdx) => (
+                <tr key={stopIdx} className="border-t border-stone-200 align-top">
+                  <td className="p-3 font-bold text-stone-500 sticky left-0 bg-white">{stopIdx + 1}</td>
+                  {sessions.map((session, idx) => {
+                    const stop = session.stops[stopIdx];
+                    if (!stop) return <td key={idx} className="p-3 border-l border-stone-200 text-stone-300">—</td>;
+
+                    const wrong = stop.attempts.filter(attempt => !attempt.isCorrect);
+                    return (
+                      <td key={idx} className="p-3 border-l border-stone-200">
+                        <div className="text-xs text-stone-500">
+                          {stop.locationName}
+                          {stop.difficulty && <span className="ml-1 text-[10px] uppercase tracking-wider text-stone-400">· {stop.difficulty}</span>}
+                        </div>
+                        {!stop.completedAt ? (
+                          <div className="text-stone-400 italic">In progress</div>
+                        ) : wrong.length === 0 ? (
+                          <div className="text-green-700 font-bold">✓ First try</div>
+                        ) : (
+                          <div className="text-red-700 font-bold">✗ {wrong.length} wrong</div>
+                        )}
+                        {wrong.length > 0 && (
+                          <div className="text-xs mt-1">
+                            {wrong.map((attempt, attemptIdx) => (
+                              <span key={attemptIdx}>
+                                {attemptIdx > 0 && ', '}
+                                <span className="line-through text-red-700">{attempt.answer}</span>
+                                {attempt.misconception && (
+                                  <span className="text-[10px] text-stone-500"> ({MISCONCEPTION_LABELS[attempt.misconception]})</span>
+                                )}
+                              </span>
+                            ))}
+                            <span className="text-stone-400"> → </span>
+                            <span className="text-green-700">{stop.correctAnswer}</span>
+                          </div>
+                        )}
+                        {!!stop.blockedInputs?.length && (
+                          <div className="text-[10px] font-bold uppercase tracking-wider text-red-700 mt-1" title={stop.blockedInputs.map(blocked => blocked.text).join('\n')}>
+                            {stop.blockedInputs.length} blocked
+                          </div>
+                        )}
+                        {stop.englishAnswer && (
+                          <div className="text-[11px] text-blue-900 mt-1 italic">"{stop.englishAnswer}"</div>
+                        )}
+                        {stop.conceptVerdict && (
+                          <div
+                            className={`text-[10px] font-bold uppercase tracking-wider ${stop.conceptVerdict === 'on-target' ? 'text-green-700' : stop.conceptVerdict === 'partial' ? 'text-amber-700' : 'text-red-700'}`}
+                            title={stop.conceptReason}
+                          >
+                            Idea: {stop.conceptVerdict}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          </>
+        )}
+      </div>
+      {journalSession && <Journal session={journalSession} strings={getStrings()} onClose={() => setJournalSession(null)} />}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { NotebookPen, Printer, X } from 'lucide-react';
+import { ExportedStop, SessionExport } from '../services/transcriptExport';
+import { completeSentence } from '../services/validation';
+import { UiStrings } from '../i18n';
+
+interface Props {
+  session: SessionExport;
+  strings: UiStrings;
+  onClose: () => void;
+}
+
+/**
+ * The study journal: every finished stop with the Spanish sentence filled in, what was tried first
+ * and why the answer is right. The stop being played isn't shown, since that would give its answer away.
+ * Rendered next to the app rather than inside it, so printing can hide everything else (see index.html).
+ */
+export const Journal: React.FC<Props> = ({ session, strings, onClose }) => {
+  const stops = session.stops.filter(stop => stop.completedAt);
+
+  return createPortal(
+    <div className="journal-sheet fixed inset-0 z-50 overflow-y-auto bg-[#f0ebe0] print:static print:overflow-visible print:bg-white" role="dialog" aria-modal="true" aria-labelledby="journal-title">
+      <div className="max-w-3xl mx-auto p-4 md:p-8 print:p-0">
+        <div className="flex items-center gap-3 mb-6">
+          <NotebookPen className="w-7 h-7 text-amber-700 print:hidden" aria-hidden="true" />
+          <div className="flex-1">
+            <h1 id="journal-title" className="font-serif text-3xl font-bold text-stone-800">{strings.journalTitle}</h1>
+            <p className="font-ui text-xs text-stone-500 uppercase tracking-wider">
+              {[session.studentName, session.packName].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+          <button
+            onClick={() => window.print()}
+            disabled={stops.length === 0}
+            className="print:hidden px-4 py-2 bg-amber-700 disabled:bg-stone-400 text-white rounded-full font-ui font-bold text-xs uppercase tracking-wider hover:bg-amber-800 flex items-center gap-2"
+          >
+            <Printer className="w-4 h-4" aria-hidden="true" /> {strings.printJournal}
+          </button>
+          <button onClick={onClose} className="print:hidden p-2 text-stone-500 hover:text-stone-800" aria-label={strings.close} autoFocus>
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        {stops.length === 0 ? (
+          <p className="text-center font-hand text-2xl text-stone-500 py-12">{strings.journalEmpty}</p>
+        ) : (
+          <ol className="space-y-4">
+            {stops.map(stop => <JournalEntry key={stop.turn} stop={stop} strings={strings} />)}
+          </ol>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+const JournalEntry: React.FC<{ stop: ExportedStop; strings: UiStrings }> = ({ stop, strings }) => {
+  const wrongAttempts = stop.attempts.filter(attempt => !attempt.isCorrect);
+
+  return (
+    <li className="bg-white border border-stone-300 rounded-xl p-5 break-inside-avoid print:border-stone-400 print:rounded-none">
+      <div className="flex items-baseline justify-between gap-3 border-b border-stone-200 pb-2 mb-3">
+        <h2 className="font-serif text-xl font-bold text-stone-800">
+          <span className="text-amber-700">{stop.turn}.</span> {stop.locationName}
+        </h2>
+        <span className="font-ui text-[10px] font-bold text-stone-500 uppercase tracking-wider">{stop.grammarTarget}</span>
+      </div>
+
+      <p className="font-serif text-stone-700">{stop.englishQuestion}</p>
+      {stop.englishAnswer && (
+        <p className="font-hand text-xl text-blue-900 mt-1">
+          <span className="font-ui text-[10px] font-bold text-stone-400 uppercase tracking-wider mr-2">{strings.yourAnswer}</span>
+          {stop.englishAnswer}
+        </p>
+      )}
+      {stop.bridge && <p className="font-hand text-lg text-stone-600 italic mt-2">{stop.bridge}</p>}
+
+      <p className="font-serif text-2xl font-bold text-stone-900 my-3">
+        <FilledSentence question={stop.question} answer={stop.correctAnswer} />
+      </p>
+
+      {wrongAttempts.length > 0 && (
+        <p className="font-ui text-sm text-stone-600">
+          <span className="text-[10px] font-bold text-stone-400 uppercase tracking-wider mr-2">{strings.triedFirst}</span>
+          {wrongAttempts.map((attempt, idx) => (
+            <span key={idx}>
+              {idx > 0 && ', '}
+              <s className="text-red-700">{attempt.answer}</s>
+            </span>
+          ))}
+        </p>
+      )}
+      <p className="font-ui text-sm text-stone-700 mt-2">
+        <span className="text-[10px] font-bold text-stone-400 uppercase tracking-wider mr-2">{strings.why}</span>
+        {stop.explanation}
+      </p>
+    </li>
+  );
+};
+
+// The completed sentence, with the answer picked out so it still shows in black and white print
+const FilledSentence: React.FC<{ question: string; answer: string }> = ({ question, answer }) => {
+  const sentence = completeSentence(question, answer);
+  const start = sentence.toLowerCase().indexOf(answer.toLowerCase());
+  if (start === -1) return <>{sentence}</>;
+  const end = start + answer.length;
+  return (
+    <>
+      {sentence.slice(0, start)}
+      <span className="text-green-800 underline decoration-2 underline-offset-4">{sentence.slice(start, end)}</span>
+      {sentence.slice(end)}
+    </>
+  );
+};
@@ -0,0 +1,115 @@
+
+import React from 'react';
+import { Flame, Target, Clock, Lightbulb, MessageCircle } from 'lucide-react';
+import { StopResult } from '../types';
+import { formatDuration, stopDurationMs, stopPoints, summarizeResults } from '../services/scoring';
+import { UiStrings, getStrings } from '../i18n';
+
+interface Props {
+  results: StopResult[];
+  strings?: UiStrings;
+}
+
+// End-of-tour summary for the student and their teacher
+export const ReportCard: React.FC<Props> = ({ results, strings = getStrings() }) => {
+  const summary = summarizeResults(results);
+
+  return (
+    <div className="text-left space-y-6">
+
+      {/* HEADLINE NUMBERS */}
+      <div className={`grid grid-cols-2 gap-3 ${summary.conceptsEvaluated ? 'md:grid-cols-5' : 'md:grid-cols-4'}`}>
+        <Stat icon={<Target className="w-4 h-4" />} label={strings.reportFirstTry} value={`${summary.firstTryCorrect}/${summary.stops}`} detail={`${summary.accuracy}%`} />
+        <Stat icon={<Flame className="w-4 h-4" />} label={strings.reportBestStreak} value={`${summary.bestStreak}`} detail={strings.reportPoints(summary.points, summary.maxPoints)} />
+        <Stat icon={<Clock className="w-4 h-4" />} label={strings.reportTime} value={formatDuration(summary.totalTimeMs)} detail={strings.reportWrongPicks(summary.wrongAttempts)} />
+        <Stat icon={<Lightbulb className="w-4 h-4" />} label={strings.reportHints} value={`${summary.hintsUsed}`} detail={strings.reportHintsUsed} />
+        {summary.conceptsEvaluated > 0 && (
+          <Stat icon={<MessageCircle className="w-4 h-4" />} label={strings.reportIdeas} value={`${summary.conceptsOnTarget}/${summary.conceptsEvaluated}`} detail={strings.reportOnTarget} />
+        )}
+      </div>
+
+      {/* BY GRAMMAR CATEGORY */}
+      <section>
+        <h3 className="font-ui font-bold text-xs text-stone-500 uppercase tracking-wider mb-2">{strings.reportByCategory}</h3>
+        <div className="space-y-2">
+          {summary.byCategory.map(category => (
+            <div key={category.grammarTarget} className="flex items-center gap-3">
+              <span className="font-serif font-bold text-stone-800 w-36 shrink-0">{category.grammarTarget}</span>
+              <div className="flex-1 h-3 bg-stone-100 rounded-full border border-stone-300 overflow-hidden">
+                <div
+                  className="h-full bg-amber-600 rounded-full"
+                  style={{ width: `${(category.firstTryCorrect / category.stops) * 100}%` }}
+                ></div>
+              </div>
+              <span className="font-hand text-lg text-stone-700 whitespace-nowrap">
+                {category.firstTryCorrect}/{category.stops}
+              </span>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* PER STOP */}
+      <section>
+        <h3 className="font-ui font-bold text-xs text-stone-500 uppercase tracking-wider mb-2">{strings.reportStops}</h3>
+        <table className="w-full text-sm font-ui">
+          <thead>
+            <tr className="text-stone-400 text-xs uppercase">
+              <th className="text-left font-bold py-1">#</th>
+              <th className="text-left font-bold py-1">{strings.reportColumns.stop}</th>
+              <th className="text-left font-bold py-1">{strings.reportColumns.idea}</th>
+              <th className="text-right font-bold py-1">{strings.reportColumns.wrong}</th>
+              <th className="text-right font-bold py-1">{strings.reportColumns.time}</th>
+              <th className="text-right font-bold py-1">{strings.reportColumns.points}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(result => (
+              <tr key={result.turn} className="border-t border-stone-200 text-stone-700">
+                <td className="py-1">{result.turn}</td>
+                <td className="py-1">{result.locationName}</td>
+                <td className={`py-1 ${result.conceptVerdict === 'off-target' ? 'text-red-700' : ''}`}>
+                  {result.conceptVerdict ? strings.verdicts[result.conceptVerdict] : '–'}{result.conceptRetried ? ` ${strings.reportRetried}` : ''}
+                </td>
+                <td className={`py-1 text-right ${result.wrongAnswers.length ? 'text-red-700 font-bold' : ''}`}>{result.wrongAnswers.length}</td>
+                <td className="py-1 text-right">{formatDuration(stopDurationMs(result))}</td>
+                <td className="py-1 text-right">{stopPoints(result)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {/* MISSED QUESTIONS */}
+      {summary.missed.length > 0 && (
+        <section>
+          <h3 className="font-ui font-bold text-xs text-stone-500 uppercase tracking-wider mb-2">{strings.reportToReview}</h3>
+          <ul className="space-y-3">
+            {summary.missed.map(result => (
+              <li key={result.turn} className="bg-stone-50 border-l-4 border-red-300 p-3 rounded-r-lg">
+                <div className="font-serif text-lg text-stone-800">{result.question}</div>
+                <div className="font-ui text-xs mt-1">
+                  <span className="text-red-700 line-through">{result.wrongAnswers.join(', ')}</span>
+                  <span className="text-stone-400"> → </span>
+                  <span className="text-green-700 font-bold">{result.correctAnswer}</span>
+                </div>
+                <div className="text-stone-500 text-sm italic mt-1">{result.explanation}</div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+const Stat: React.FC<{ icon: React.ReactNode; label: string; value: string; detail: string }> = ({ icon, label, value, detail }) => (
+  <div className="bg-stone-50 border border-stone-200 rounded-lg p-3">
+    <div className="flex items-center gap-1 text-amber-700 font-ui font-bold text-[10px] uppercase tracking-wider">
+      {icon}
+      <span>{label}</span>
+    </div>
+    <div className="font-serif text-2xl font-bold text-stone-800">{value}</div>
+    <div className="font-ui text-xs text-stone-500">{detail}</div>
+  </div>
+);
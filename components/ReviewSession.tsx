@@ -0,0 +1,139 @@
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, RotateCcw, ArrowLeft } from 'lucide-react';
+import { GrammarChallenge } from './GrammarChallenge';
+import { QuestProvider } from '../services/provider';
+import { getDueCards, recordReview } from '../services/reviewDeck';
+import { GameTurnData, ReviewCard } from '../types';
+import { UiStrings, getStrings } from '../i18n';
+
+interface Props {
+  questProvider: QuestProvider;
+  onExit: () => void;
+  strings?: UiStrings; // Defaults to English
+}
+
+// Review mode: replays due cards from the review deck through the Phase 2 options UI
+export const ReviewSession: React.FC<Props> = ({ questProvider, onExit, strings = getStrings() }) => {
+  // The due queue is fixed when the session opens; rescheduled cards wait for the next session
+  const [queue] = useState<ReviewCard[]>(() => getDueCards());
+  const [index, setIndex] = useState(0);
+  const [useVariants, setUseVariants] = useState(questProvider.id !== 'scripted');
+  const [challenge, setChallenge] = useState<GameTurnData | null>(null);
+  const [wrongAnswers, setWrongAnswers] = useState<string[]>([]);
+  const [feedbackMessage, setFeedbackMessage] = useState<{text: string, type: 'success' | 'error'} | null>(null);
+  const [firstTryCount, setFirstTryCount] = useState(0);
+
+  const card = queue[index];
+
+  // Load the challenge for the current card, optionally as a fresh variant
+  useEffect(() => {
+    if (!card) return;
+    let cancelled = false;
+    setChallenge(null);
+    setWrongAnswers([]);
+    setFeedbackMessage(null);
+
+    const load = async () => {
+      const next = useVariants ? await questProvider.generateVariant(card.challenge) : card.challenge;
+      if (!cancelled) setChallenge(next);
+    };
+    load();
+
+    return () => { cancelled = true; };
+  }, [card, useVariants, questProvider]);
+
+  const handleOptionSelect = async (selectedOption: string) => {
+    if (!challenge || !card || feedbackMessage?.type === 'success') return;
+
+    if (selectedOption !== challenge.correctAnswer) {
+      setWrongAnswers(prev => [...prev, selectedOption]);
+      setFeedbackMessage({ text: strings.incorrectExplained(challenge.explanation), type: 'error' });
+      return;
+    }
+
+    const firstTry = wrongAnswers.length === 0;
+    recordReview(card.id, firstTry);
+    if (firstTry) setFirstTryCount(prev => prev + 1);
+
+    setFeedbackMessage({ text: firstTry ? strings.reviewCorrectFirstTry : strings.reviewCorrectRetried, type: 'success' });
+    await new Promise(r => setTimeout(r, 1500));
+    setIndex(prev => prev + 1);
+  };
+
+  return (
+    <div className="h-screen flex flex-col items-center bg-[#f0ebe0] relative overflow-y-auto py-8">
+      <div className="absolute inset-0 bg-[url('/textures/aged-paper.svg')] opacity-10 pointer-events-none"></div>
+      <div className="z-10 my-auto w-full max-w-3xl mx-4 bg-[#e6e2d6] border border-[#d6cebf] rounded-2xl shadow-xl p-4 md:p-6">
+
+        {/* HEADER */}
+        <div className="flex items-center justify-between gap-3 mb-6">
+          <button onClick={onExit} className="flex items-center gap-1 font-ui text-xs font-bold uppercase tracking-wider text-stone-600 hover:text-amber-800">
+            <ArrowLeft className="w-4 h-4" /> {strings.back}
+          </button>
+          <div className="flex items-center gap-2 font-serif font-bold text-xl text-stone-800">
+            <RotateCcw className="w-5 h-5 text-amber-700" /> {strings.review}
+          </div>
+          <div className="font-hand text-stone-800 font-bold text-lg whitespace-nowrap">
+            {Math.min(index + 1, queue.length)} / {queue.length}
+          </div>
+        </div>
+
+        {queue.length === 0 && (
+          <p className="text-center font-hand text-2xl text-stone-600 py-8">{strings.reviewNothingDue}</p>
+        )}
+
+        {/* DONE */}
+        {queue.length > 0 && !card && (
+          <div className="text-center py-8 space-y-4">
+            <p className="font-serif text-3xl font-bold text-stone-800">{strings.reviewComplete}</p>
+            <p className="font-hand text-2xl text-stone-600">{strings.reviewFirstTry(firstTryCount, queue.length)}</p>
+            <button onClick={onExit} className="px-8 py-3 bg-amber-700 text-white rounded-full shadow-lg font-ui font-bold hover:bg-amber-800 transition-colors">
+              {strings.done}
+            </button>
+          </div>
+        )}
+
+        {/* CURRENT CARD */}
+        {card && (
+          <>
+            <div className="flex items-center justify-between mb-4 font-ui text-xs text-stone-500">
+              <span className="uppercase tracking-wider font-bold">{card.challenge.locationName}</span>
+              {questProvider.id !== 'scripted' && (
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={useVariants} onChange={(e) => setUseVariants(e.target.checked)} />
+                  {strings.freshVariants}
+                </label>
+              )}
+            </div>
+
+            {feedbackMessage && (
+              <div role="alert" className={`mb-4 p-3 rounded-lg flex items-center gap-3 border font-hand font-bold ${
+                feedbackMessage.type === 'error'
+                  ? 'bg-red-100 text-red-900 border-red-300 animate-shake'
+                  : 'bg-green-50 text-green-800 border-green-200'
+              }`}>
+                {feedbackMessage.text}
+              </div>
+            )}
+
+            {challenge ? (
+              <GrammarChallenge
+                challenge={challenge}
+                wrongAnswers={wrongAnswers}
+                onSelect={handleOptionSelect}
+                label={strings.reviewGrammar}
+                strings={strings}
+              />
+            ) : (
+              <div className="flex justify-center items-center gap-3 py-8 text-amber-800 font-ui font-bold text-sm uppercase tracking-widest">
+                <Loader2 className="animate-spin w-4 h-4" />
+                {strings.reviewPreparing}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
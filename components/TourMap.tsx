@@ -0,0 +1,127 @@
+import React from 'react';
+import { Check, ExternalLink, MapPin } from 'lucide-react';
+import { Coordinates, QuestStop } from '../types';
+
+// A stop the student has reached, in tour order
+export interface VisitedStop {
+  locationName: string;
+  mapUri?: string; // From the turn's Google Maps grounding, when there was any
+}
+
+interface Props {
+  stops: QuestStop[]; // The pack's planned stops; empty for tours the model plans as it goes
+  visited: VisitedStop[]; // Index n-1 holds stop n
+  completedTurns: number[];
+  currentTurn: number | null; // null once the tour is over
+  maxTurns: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = 24;
+
+type StopStatus = 'completed' | 'current' | 'upcoming';
+
+const MARKER_STYLES: Record<StopStatus, { fill: string; stroke: string }> = {
+  completed: { fill: '#15803d', stroke: '#dcfce7' },
+  current: { fill: '#d97706', stroke: '#fef3c7' },
+  upcoming: { fill: '#a8a29e', stroke: '#f5f5f4' },
+};
+
+/**
+ * Flat projection fitted to the stops' bounding box. Longitude is scaled by cos(latitude)
+ * so a campus keeps its shape; at this scale that's all the projection it needs.
+ */
+const project = (points: Coordinates[]) => {
+  const midLat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+  const scaleX = Math.cos((midLat * Math.PI) / 180);
+  const xs = points.map(p => p.lng * scaleX);
+  const ys = points.map(p => -p.lat);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+  // One stop (or all stops on one spot) sits in the middle
+  const span = Math.max(maxX - minX, (maxY - minY) * ((WIDTH - 2 * PADDING) / (HEIGHT - 2 * PADDING)), 1e-6);
+  const scale = (WIDTH - 2 * PADDING) / span;
+  const offsetX = (WIDTH - (maxX - minX) * scale) / 2;
+  const offsetY = (HEIGHT - (maxY - minY) * scale) / 2;
+  return points.map((_, i) => ({ x: offsetX + (xs[i] - minX) * scale, y: offsetY + (ys[i] - minY) * scale }));
+};
+
+// The tour drawn from the pack's own coordinates, so it works offline; grounded Maps links are extras
+export const TourMap: React.FC<Props> = ({ stops, visited, completedTurns, currentTurn, maxTurns }) => {
+  const count = Math.max(Math.min(stops.length, maxTurns), visited.length);
+  const tour = Array.from({ length: count }, (_, i) => ({
+    turn: i + 1,
+    name: visited[i]?.locationName || stops[i]?.name || `Stop ${i + 1}`,
+    coordinates: stops[i]?.coordinates,
+    mapUri: visited[i]?.mapUri,
+  }));
+
+  const statusOf = (turn: number): StopStatus =>
+    completedTurns.includes(turn) ? 'completed' : turn === currentTurn ? 'current' : 'upcoming';
+
+  const canDraw = tour.length > 0 && tour.every(stop => stop.coordinates);
+  const points = canDraw ? project(tour.map(stop => stop.coordinates as Coordinates)) : [];
+
+  return (
+    <div className="px-4 md:px-8 py-3 bg-[#f7f3ea] border-t border-[#d6cebf]">
+      {canDraw ? (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-h-56 bg-[#efe8d8] rounded-lg border border-stone-300" role="img" aria-label="Tour map">
+          {/* Walking route: solid where the student has been, dashed ahead */}
+          {points.slice(1).map((point, i) => {
+            const from = points[i];
+            const walked = statusOf(i + 1) === 'completed';
+            return (
+              <line
+                key={`route-${i}`}
+                x1={from.x} y1={from.y} x2={point.x} y2={point.y}
+                stroke={walked ? '#15803d' : '#78716c'}
+                strokeWidth={walked ? 3 : 2}
+                strokeDasharray={walked ? undefined : '6 5'}
+                strokeLinecap="round"
+              />
+            );
+          })}
+          {tour.map((stop, i) => {
+            const status = statusOf(stop.turn);
+            const style = MARKER_STYLES[status];
+            const marker = (
+              <g>
+                <title>{`${stop.turn}. ${stop.name} (${status})`}</title>
+                {status === 'current' && <circle cx={points[i].x} cy={points[i].y} r={18} fill={style.fill} opacity={0.3} className="animate-pulse" />}
+                <circle cx={points[i].x} cy={points[i].y} r={11} fill={style.fill} stroke={style.stroke} strokeWidth={3} />
+                <text x={points[i].x} y={points[i].y + 4} textAnchor="middle" fontSize="11" fontWeight="bold" fill="#fff" fontFamily="sans-serif">
+                  {stop.turn}
+                </text>
+              </g>
+            );
+            return stop.mapUri
+              ? <a key={stop.turn} href={stop.mapUri} target="_blank" rel="noopener noreferrer">{marker}</a>
+              : <React.Fragment key={stop.turn}>{marker}</React.Fragment>;
+          })}
+        </svg>
+      ) : (
+        <p className="font-hand text-lg text-stone-500 mb-2">
+          {tour.length === 0 ? "Your stops will appear here as you explore." : "These stops have no coordinates, so they're listed instead."}
+        </p>
+      )}
+
+      <ol className="mt-2 flex flex-wrap gap-x-4 gap-y-1 font-ui text-xs">
+        {tour.map(stop => {
+          const status = statusOf(stop.turn);
+          return (
+            <li key={stop.turn} className={`flex items-center gap-1 ${status === 'current' ? 'text-amber-800 font-bold' : status === 'completed' ? 'text-green-800' : 'text-stone-500'}`}>
+              {status === 'completed' ? <Check className="w-3 h-3" /> : <MapPin className="w-3 h-3" />}
+              {stop.turn}. {stop.name}
+              {stop.mapUri && (
+                <a href={stop.mapUri} target="_blank" rel="noopener noreferrer" className="text-amber-700 hover:text-amber-900" title="Open in Google Maps">
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import { GrammarTopic } from "../types";
+
+// Every topic a teacher can put on a tour, in Grammar Guide order
+export const GRAMMAR_TOPICS: GrammarTopic[] = [
+  {
+    id: 'se-impersonal',
+    name: "Se Impersonal",
+    icon: "🛑",
+    summary: "Used for campus signs, rules, and general statements.",
+    rules: [
+      { title: "Se + Singular Verb", description: "Singular object.", example: "Se necesita estudiante", answerPattern: '^se \\S*[^n\\s]$' },
+      { title: "Se + Plural Verb", description: "Plural object.", example: "Se venden libros", answerPattern: '^se \\S+n$' },
+    ],
+    promptGuidance: 'Signs/Rules: "Se necesita", "Se prohíbe", "Se vende", "Aquí se estudia", "Se sacan fotos".'
+  },
+  {
+    id: 'se-accidental',
+    name: "Se Accidental",
+    icon: "💥",
+    summary: "Used for accidents (dropping keys, losing ID).",
+    formula: "Se + (me/te/le) + Verb",
+    rules: [
+      { title: "Se me...", description: "(To me)", example: "Se me olvidó la tarea", answerPattern: '^se me\\b' },
+      { title: "Se le...", description: "(To him/her)", example: "Se le cayó el café", answerPattern: '^se (te|le|les|os)\\b' },
+    ],
+    promptGuidance: 'Mishaps: "Se me olvidó (I forgot)", "Se le cayó (He dropped)", "Se nos perdió (We lost)".'
+  },
+  {
+    id: 'preterite-imperfect',
+    name: "Preterite vs Imperfect",
+    icon: "⏳",
+    summary: "Two past tenses: finished events vs background and habits.",
+    rules: [
+      { title: "Preterite", description: "Completed, one-time action.", example: "Ayer visité la biblioteca", answerPattern: '(é|ó|aste|iste|amos|imos|aron|ieron|fue|fueron|hubo|tuvo|hizo)$' },
+      { title: "Imperfect", description: "Background, description, habit.", example: "Siempre estudiaba allí", answerPattern: '(aba|abas|ábamos|aban|ía|ías|íamos|ían|era|eran|había)$' },
+      { title: "Together", description: "Imperfect scene interrupted by preterite.", example: "Leía cuando sonó la alarma" },
+    ],
+    promptGuidance: 'Past narration at the place: a completed event (preterite: "llegué", "se cayó") vs background or habit (imperfect: "había", "estudiaba"). Options mix the two tenses of the same verb.'
+  },
+  {
+    id: 'ser-estar',
+    name: "Ser vs Estar",
+    icon: "🪞",
+    summary: "Both mean \"to be\": identity vs state and location.",
+    rules: [
+      { title: "Ser", description: "Identity, origin, time, characteristics.", example: "La biblioteca es enorme", answerPattern: '^(soy|eres|es|somos|son|era|eran|fue|fueron|sea|sean)$' },
+      { title: "Estar", description: "Location, temporary states, feelings.", example: "El café está frío", answerPattern: '^(est|estuv)' },
+    ],
+    promptGuidance: 'Describe the place or people there. Use "ser" for identity/origin/traits and events ("El partido es a las 7") and "estar" for location and conditions ("El museo está cerrado"). Options are conjugated forms of ser and estar.'
+  },
+  {
+    id: 'subjunctive-impersonal',
+    name: "Subjunctive after Impersonal Expressions",
+    icon: "📜",
+    summary: "Es importante / necesario / mejor que + subjunctive.",
+    formula: "Es + adjective + que + subjunctive",
+    rules: [
+      { title: "Es necesario que...", description: "Obligation or advice.", example: "Es necesario que traigas tu ID", answerPattern: '(e|es|emos|en|a|as|amos|an)$' },
+      { title: "Es verdad que...", description: "Certainty takes the indicative.", example: "Es verdad que cierra tarde" },
+    ],
+    promptGuidance: 'A rule or advice for visitors: "Es importante que hables bajo", "Es mejor que llegues temprano". Distractors use the indicative or the infinitive of the same verb.'
+  },
+  {
+    id: 'por-para',
+    name: "Por vs Para",
+    icon: "🧭",
+    summary: "Cause, exchange and route vs purpose, destination and deadline.",
+    rules: [
+      { title: "Por", description: "Cause, exchange, through, duration.", example: "Pagué diez dólares por la pizza", answerPattern: '^por$' },
+      { title: "Para", description: "Purpose, destination, deadline, recipient.", example: "Estudio para el examen", answerPattern: '^para$' },
+    ],
+    promptGuidance: 'Everyday use at the place: "caminamos por el parque", "compré un regalo para mi madre", "gracias por la ayuda". Options are "por", "para" and one other preposition.'
+  },
+];
+
+export const DEFAULT_TOPIC_IDS = ['se-impersonal', 'se-accidental'];
+
+// Topics in curriculum order; unknown ids are skipped
+export const getTopics = (ids: string[]): GrammarTopic[] => {
+  const topics = GRAMMAR_TOPICS.filter(topic => ids.includes(topic.id));
+  return topics.length > 0 ? topics : GRAMMAR_TOPICS.filter(topic => DEFAULT_TOPIC_IDS.includes(topic.id));
+};
@@ -0,0 +1,202 @@
+// The interface copy in English. This is the source catalog: every other language has the same keys.
+export const EN_STRINGS = {
+  // Start screen
+  tagline: "Where will your quest take you?",
+  language: "Language",
+  namePlaceholder: "Your name",
+  stopCount: (count: number) => `${count} stops`,
+  typedMode: "Type the Spanish answers instead of choosing",
+  difficulty: "Difficulty",
+  difficultyAdaptive: "Adaptive",
+  difficultyLevels: {
+    easy: "Easy",
+    medium: "Medium",
+    hard: "Hard",
+  },
+  difficultyAdapts: "Follows how your last few stops went",
+  difficultyPinned: "Set by your teacher",
+  grammarTopics: "Grammar topics",
+  eachTourDefault: "(each tour's default)",
+  reviewMissed: (count: number) => `Review missed questions (${count})`,
+  classCodePlaceholder: "Class code",
+  joinClass: "Join class",
+  instructorView: "Instructor view",
+  runClass: "Run a class",
+  nearMe: "Near me",
+  locating: "Finding where you are...",
+  locationFallback: "If location is unavailable:",
+
+  // Notices and errors
+  joinedClass: (code: string, name: string) => `You joined class ${code} as ${name}.`,
+  locationUnavailable: (campusName: string) => `Your location isn't available, so we're touring ${campusName} instead.`,
+  nameFirst: "Type your name first, so your teacher knows who you are.",
+  unknownClassTour: "This class plays a tour this app doesn't have",
+  joinFailed: "Could not join the class",
+  tourFailed: "The tour couldn't load",
+  tourFailedHelp: "The quest service didn't answer. Check your connection and try again, or pick another tour.",
+  stopFailed: "The next stop didn't load.",
+  retry: "Retry",
+  backToTours: "Back to tours",
+
+  // Saved tour
+  leftOffAt: (turn: number, maxTurns: number) => `You left off at Stop ${turn} / ${maxTurns}.`,
+  continueTour: "Continue tour",
+  startOver: "Start over",
+
+  // Loading and finish
+  firstStop: "First stop:",
+  exportJson: "Export JSON",
+  exportCsv: "Export CSV",
+
+  // Game header and sidebar
+  grammarGuide: "Grammar Guide",
+  streakTitle: "First-try correct in a row",
+  stopOf: (turn: number, maxTurns: number) => `Stop ${turn} / ${maxTurns}`,
+  showMap: "Show tour map",
+  hideMap: "Hide tour map",
+  exportJsonTitle: "Export progress (JSON)",
+  exportCsvTitle: "Export progress (CSV)",
+  journal: "Journal",
+  openJournal: "Your study journal: every finished stop",
+
+  // Study journal
+  journalTitle: "Study journal",
+  printJournal: "Print",
+  close: "Close",
+  journalEmpty: "Finished stops show up here, with everything you answered.",
+  yourAnswer: "You said",
+  triedFirst: "Tried first",
+  why: "Why",
+
+  // Chat
+  thinking: "Thinking...",
+  waitingForTeacher: "Waiting for your teacher to open the next stop...",
+  classPaused: "Your teacher paused the class. Eyes up front!",
+  currentStop: "Current Stop",
+  visualRef: "Visual Ref",
+  verifyOnMaps: "Verify on Google Maps",
+  gettingStopReady: "Getting the stop ready...",
+  loading: "Loading...",
+  verdicts: {
+    'on-target': "On target",
+    'partial': "Partly there",
+    'off-target': "Off target",
+  },
+
+  // Phase 1
+  phaseConcept: "Phase 1: The Concept",
+  conceptPlaceholder: "Type your answer in English...",
+  tryOnceMore: "Try once more!",
+  inputBlocked: "Let's stay on the tour. Answer the question about this place in your own words.",
+
+  // Phase 1 check without the model (offline, or when it can't be reached)
+  conceptNoAnswer: "That doesn't answer the question yet.",
+  conceptGuidance: (locationName: string) => `Picture yourself at ${locationName}: what would people do, notice or be told there?`,
+  conceptThanks: "Thanks! Let's see how to say it in Spanish.",
+  conceptKeyword: (keyword: string) => `Yes, "${keyword}" is exactly the idea here.`,
+  conceptPartial: "A reasonable guess, but not quite what happens here.",
+
+  // Phase 2
+  phaseGrammar: "Phase 2: Spanish Grammar",
+  typedPlaceholder: "Type the missing words...",
+
+  // Phase 2 feedback
+  tryAgain: "Try again!",
+  incorrectTakeHint: (feedback: string) => `Incorrect. ${feedback} Try again, or take a hint!`,
+  incorrectExplained: (explanation: string) => `Incorrect. ${explanation} Try again!`,
+  correctNextStop: "¡Correcto! Next stop...",
+  nextStop: "Next stop...",
+
+  // Review mode
+  back: "Back",
+  review: "Review",
+  reviewNothingDue: "Nothing to review right now. ¡Buen trabajo!",
+  reviewComplete: "Review complete",
+  reviewFirstTry: (count: number, total: number) => `${count} of ${total} right on the first try.`,
+  done: "Done",
+  freshVariants: "Fresh variants",
+  reviewGrammar: "Review: Spanish Grammar",
+  reviewPreparing: "Preparing your review...",
+  reviewCorrectFirstTry: "¡Correcto! See you again in a few days.",
+  reviewCorrectRetried: "¡Correcto! This one will come back soon.",
+
+  // Typed answers
+  gradeEmpty: "Type the missing words for the blank.",
+  gradeCorrect: "¡Correcto!",
+  gradeWatchAccent: (answer: string) => `¡Correcto! Watch the accent: "${answer}".`,
+  gradeMissingSe: 'Almost! This construction needs "se".',
+  gradeWrongPronoun: (used: string) => `Check the pronoun: you used ${used}, but the mishap happens to someone else. Who is affected in the sentence?`,
+  gradeMissingPronoun: "You're missing the indirect object pronoun (me/te/le/nos/les) that shows who the accident happened to.",
+  gradeWrongNumber: (isPlural: boolean): string => isPlural
+    ? 'Right verb, wrong number: the thing in the sentence is plural, so the verb must be plural too.'
+    : 'Right verb, wrong number: the thing in the sentence is singular (or an infinitive), so the verb stays singular.',
+  gradeWrongOrder: 'Right words, wrong order. In Spanish "se" (and the pronoun) go before the verb.',
+  gradeSpelling: "So close! Check your spelling.",
+  gradeNotQuite: (explanation: string) => `Not quite. ${explanation}`,
+  // Who each Se Accidental pronoun points to
+  pronounGlosses: {
+    me: "to me",
+    te: "to you",
+    le: "to him/her/you formal",
+    nos: "to us",
+    os: "to you all",
+    les: "to them/you all",
+  },
+
+  // Hints
+  needHint: "Need a hint?",
+  anotherHint: "Another hint",
+  hintNumber: (number: number) => `Hint ${number}`,
+  hintGuideRule: (title: string, description: string, example: string) => `Grammar Guide: "${title}" ${description} e.g. "${example}"`,
+  hintRule: (rule: string) => `Rule: ${rule}`,
+  hintGuideTopic: (name: string, summary: string) => `Grammar Guide: ${name}. ${summary}`,
+  hintWhichRule: (grammarTarget?: string) => `Think about which ${grammarTarget || 'grammar'} rule fits this sentence.`,
+  hintPerson: (pronoun: string, person: string) => `"${pronoun}" refers to ${person}.`,
+  hintNoun: (noun: string) => `Look at "${noun}": it decides the form.`,
+  hintClue: (clue: string) => `Look at what goes with the blank: "${clue}". Is there a noun the verb has to agree with?`,
+  hintReadAgain: "Read the whole sentence again before you choose.",
+  hintStartsWith: (start: string) => `It starts with "${start}..."`,
+  hintLastOption: "Only one option is left!",
+  hintCrossedOut: (option: string) => `It isn't "${option}", so that one is crossed out.`,
+
+  // Report card
+  reportFirstTry: "First try",
+  reportBestStreak: "Best streak",
+  reportPoints: (points: number, maxPoints: number) => `${points}/${maxPoints} pts`,
+  reportTime: "Time",
+  reportWrongPicks: (count: number) => `${count} wrong picks`,
+  reportHints: "Hints",
+  reportHintsUsed: "used",
+  reportIdeas: "Ideas",
+  reportOnTarget: "on target",
+  reportByCategory: "By grammar category",
+  reportStops: "Stops",
+  reportColumns: {
+    stop: "Stop",
+    idea: "Idea",
+    wrong: "Wrong",
+    time: "Time",
+    points: "Pts",
+  },
+  reportRetried: "(retried)",
+  reportToReview: "Questions to review",
+
+  // Screen readers and keyboard
+  correct: "Correct",
+  incorrect: "Incorrect",
+  submit: "Submit",
+  optionLabel: (number: number, option: string, isTried: boolean) => `${number}: ${option}${isTried ? ', already tried' : ''}`,
+  keyboardHint: (count: number) => `Press 1 to ${count} to choose`,
+  stopAnnouncement: (turn: number, maxTurns: number, locationName: string, question: string) => `Stop ${turn} of ${maxTurns}: ${locationName}. ${question}`,
+
+  // Why a wrong option is wrong, when the model didn't say. Never gives the answer away.
+  misconceptionFeedback: {
+    'number-agreement': (answer: string, isPlural: boolean) => `"${answer}" is ${isPlural ? 'plural' : 'singular'}. The verb has to agree with the thing it's about: is that one thing or several?`,
+    'indirect-object-pronoun': (answer: string) => `"${answer}" points at the wrong person. Who does this happen to?`,
+    'non-reflexive': (answer: string) => `"${answer}" leaves out "se", and this sentence needs it.`,
+    'wrong-tense': (answer: string) => `"${answer}" is in a different tense. Look for the time clues in the sentence.`,
+    'other': (answer: string) => `"${answer}" doesn't fit this sentence.`,
+  },
+};
+
+export type UiStrings = typeof EN_STRINGS;
@@ -0,0 +1,28 @@
+import { LanguageId } from "../types";
+import { EN_STRINGS, UiStrings } from "./en";
+import { PT_STRINGS } from "./pt";
+
+export type { UiStrings } from "./en";
+
+export interface Language {
+  id: LanguageId;
+  name: string; // In the language itself, for the picker
+  promptName: string; // How the model is told which language to write in
+  strings: UiStrings;
+}
+
+// Languages offered in the picker. Add a catalog next to en.ts and register it here.
+export const LANGUAGES: Language[] = [
+  { id: 'en', name: 'English', promptName: 'English', strings: EN_STRINGS },
+  { id: 'pt', name: 'Português', promptName: 'Brazilian Portuguese', strings: PT_STRINGS },
+];
+
+export const DEFAULT_LANGUAGE: LanguageId = 'en';
+
+export const isLanguageId = (value: unknown): value is LanguageId =>
+  LANGUAGES.some(language => language.id === value);
+
+export const getLanguage = (id: LanguageId = DEFAULT_LANGUAGE): Language =>
+  LANGUAGES.find(language => language.id === id) ?? LANGUAGES[0];
+
+export const getStrings = (id?: LanguageId): UiStrings => getLanguage(id).strings;
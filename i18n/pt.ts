@@ -0,0 +1,201 @@
+import { UiStrings } from "./en";
+
+// Brazilian Portuguese
+export const PT_STRINGS: UiStrings = {
+  // Start screen
+  tagline: "Aonde a sua aventura vai te levar?",
+  language: "Idioma",
+  namePlaceholder: "Seu nome",
+  stopCount: (count: number) => `${count} paradas`,
+  typedMode: "Digitar as respostas em espanhol em vez de escolher",
+  difficulty: "Dificuldade",
+  difficultyAdaptive: "Adaptativa",
+  difficultyLevels: {
+    easy: "Fácil",
+    medium: "Média",
+    hard: "Difícil",
+  },
+  difficultyAdapts: "Acompanha como foram as suas últimas paradas",
+  difficultyPinned: "Definida pelo professor",
+  grammarTopics: "Temas de gramática",
+  eachTourDefault: "(o padrão de cada passeio)",
+  reviewMissed: (count: number) => `Revisar as questões erradas (${count})`,
+  classCodePlaceholder: "Código da turma",
+  joinClass: "Entrar na turma",
+  instructorView: "Visão do professor",
+  runClass: "Conduzir uma turma",
+  nearMe: "Perto de mim",
+  locating: "Procurando onde você está...",
+  locationFallback: "Se a localização não estiver disponível:",
+
+  // Notices and errors
+  joinedClass: (code: string, name: string) => `Você entrou na turma ${code} como ${name}.`,
+  locationUnavailable: (campusName: string) => `Sua localização não está disponível, então vamos passear por ${campusName}.`,
+  nameFirst: "Digite seu nome primeiro, para o professor saber quem você é.",
+  unknownClassTour: "Esta turma joga um passeio que este app não tem",
+  joinFailed: "Não foi possível entrar na turma",
+  tourFailed: "Não foi possível carregar o passeio",
+  tourFailedHelp: "O serviço do passeio não respondeu. Confira a sua conexão e tente de novo, ou escolha outro passeio.",
+  stopFailed: "A próxima parada não carregou.",
+  retry: "Tentar de novo",
+  backToTours: "Voltar aos passeios",
+
+  // Saved tour
+  leftOffAt: (turn: number, maxTurns: number) => `Você parou na parada ${turn} / ${maxTurns}.`,
+  continueTour: "Continuar o passeio",
+  startOver: "Começar de novo",
+
+  // Loading and finish
+  firstStop: "Primeira parada:",
+  exportJson: "Exportar JSON",
+  exportCsv: "Exportar CSV",
+
+  // Game header and sidebar
+  grammarGuide: "Guia de Gramática",
+  streakTitle: "Acertos de primeira seguidos",
+  stopOf: (turn: number, maxTurns: number) => `Parada ${turn} / ${maxTurns}`,
+  showMap: "Mostrar o mapa do passeio",
+  hideMap: "Esconder o mapa do passeio",
+  exportJsonTitle: "Exportar o progresso (JSON)",
+  exportCsvTitle: "Exportar o progresso (CSV)",
+  journal: "Diário",
+  openJournal: "Seu diário de estudo: todas as paradas concluídas",
+
+  // Diário de estudo
+  journalTitle: "Diário de estudo",
+  printJournal: "Imprimir",
+  close: "Fechar",
+  journalEmpty: "As paradas concluídas aparecem aqui, com tudo o que você respondeu.",
+  yourAnswer: "Você disse",
+  triedFirst: "Tentou antes",
+  why: "Por quê",
+
+  // Chat
+  thinking: "Pensando...",
+  waitingForTeacher: "Esperando o professor abrir a próxima parada...",
+  classPaused: "O professor pausou a aula. Olhos na frente!",
+  currentStop: "Parada atual",
+  visualRef: "Referência visual",
+  verifyOnMaps: "Ver no Google Maps",
+  gettingStopReady: "Preparando a parada...",
+  loading: "Carregando...",
+  verdicts: {
+    'on-target': "Na mosca",
+    'partial': "Quase lá",
+    'off-target': "Fora do alvo",
+  },
+
+  // Phase 1
+  phaseConcept: "Fase 1: A ideia",
+  conceptPlaceholder: "Escreva sua resposta em português...",
+  tryOnceMore: "Tente mais uma vez!",
+  inputBlocked: "Vamos continuar no passeio. Responda à pergunta sobre este lugar com as suas palavras.",
+
+  // Fase 1 sem o modelo
+  conceptNoAnswer: "Isso ainda não responde à pergunta.",
+  conceptGuidance: (locationName: string) => `Imagine-se em ${locationName}: o que as pessoas fariam, notariam ou ouviriam lá?`,
+  conceptThanks: "Obrigado! Vamos ver como se diz isso em espanhol.",
+  conceptKeyword: (keyword: string) => `Isso, "${keyword}" é exatamente a ideia aqui.`,
+  conceptPartial: "Um bom palpite, mas não é bem o que acontece aqui.",
+
+  // Fase 2
+  phaseGrammar: "Fase 2: Gramática espanhola",
+  typedPlaceholder: "Digite as palavras que faltam...",
+
+  // Phase 2 feedback
+  tryAgain: "Tente de novo!",
+  incorrectTakeHint: (feedback: string) => `Incorreto. ${feedback} Tente de novo, ou peça uma dica!`,
+  incorrectExplained: (explanation: string) => `Incorreto. ${explanation} Tente de novo!`,
+  correctNextStop: "¡Correcto! Próxima parada...",
+  nextStop: "Próxima parada...",
+
+  // Modo revisão
+  back: "Voltar",
+  review: "Revisão",
+  reviewNothingDue: "Nada para revisar agora. ¡Buen trabajo!",
+  reviewComplete: "Revisão concluída",
+  reviewFirstTry: (count: number, total: number) => `${count} de ${total} certas na primeira tentativa.`,
+  done: "Concluir",
+  freshVariants: "Variações novas",
+  reviewGrammar: "Revisão: Gramática espanhola",
+  reviewPreparing: "Preparando sua revisão...",
+  reviewCorrectFirstTry: "¡Correcto! Até daqui a alguns dias.",
+  reviewCorrectRetried: "¡Correcto! Esta vai voltar logo.",
+
+  // Respostas digitadas
+  gradeEmpty: "Digite as palavras que faltam na lacuna.",
+  gradeCorrect: "¡Correcto!",
+  gradeWatchAccent: (answer: string) => `¡Correcto! Cuidado com o acento: "${answer}".`,
+  gradeMissingSe: 'Quase! Esta construção precisa do "se".',
+  gradeWrongPronoun: (used: string) => `Confira o pronome: você usou ${used}, mas o imprevisto acontece com outra pessoa. Quem é afetado na frase?`,
+  gradeMissingPronoun: "Falta o pronome de objeto indireto (me/te/le/nos/les) que mostra com quem o imprevisto aconteceu.",
+  gradeWrongNumber: (isPlural: boolean) => isPlural
+    ? 'Verbo certo, número errado: o que aparece na frase está no plural, então o verbo também vai para o plural.'
+    : 'Verbo certo, número errado: o que aparece na frase está no singular (ou é um infinitivo), então o verbo fica no singular.',
+  gradeWrongOrder: 'Palavras certas, ordem errada. Em espanhol o "se" (e o pronome) vêm antes do verbo.',
+  gradeSpelling: "Quase! Confira a ortografia.",
+  gradeNotQuite: (explanation: string) => `Ainda não. ${explanation}`,
+  pronounGlosses: {
+    me: "para mim",
+    te: "para você",
+    le: "para ele/ela/o senhor",
+    nos: "para nós",
+    os: "para vocês (Espanha)",
+    les: "para eles/vocês",
+  },
+
+  // Dicas
+  needHint: "Precisa de uma dica?",
+  anotherHint: "Outra dica",
+  hintNumber: (number: number) => `Dica ${number}`,
+  hintGuideRule: (title: string, description: string, example: string) => `Guia de gramática: "${title}" ${description} ex.: "${example}"`,
+  hintRule: (rule: string) => `Regra: ${rule}`,
+  hintGuideTopic: (name: string, summary: string) => `Guia de gramática: ${name}. ${summary}`,
+  hintWhichRule: (grammarTarget?: string) => grammarTarget ? `Pense em qual regra de ${grammarTarget} cabe nesta frase.` : `Pense em qual regra de gramática cabe nesta frase.`,
+  hintPerson: (pronoun: string, person: string) => `"${pronoun}" se refere a ${person}.`,
+  hintNoun: (noun: string) => `Olhe para "${noun}": é isso que decide a forma.`,
+  hintClue: (clue: string) => `Olhe o que acompanha a lacuna: "${clue}". Existe um substantivo com que o verbo precisa concordar?`,
+  hintReadAgain: "Leia a frase inteira de novo antes de escolher.",
+  hintStartsWith: (start: string) => `Começa com "${start}..."`,
+  hintLastOption: "Só sobrou uma opção!",
+  hintCrossedOut: (option: string) => `Não é "${option}", então essa foi riscada.`,
+
+  // Boletim
+  reportFirstTry: "De primeira",
+  reportBestStreak: "Melhor sequência",
+  reportPoints: (points: number, maxPoints: number) => `${points}/${maxPoints} pts`,
+  reportTime: "Tempo",
+  reportWrongPicks: (count: number) => `${count} escolhas erradas`,
+  reportHints: "Dicas",
+  reportHintsUsed: "usadas",
+  reportIdeas: "Ideias",
+  reportOnTarget: "na mosca",
+  reportByCategory: "Por tema de gramática",
+  reportStops: "Paradas",
+  reportColumns: {
+    stop: "Parada",
+    idea: "Ideia",
+    wrong: "Erros",
+    time: "Tempo",
+    points: "Pts",
+  },
+  reportRetried: "(de novo)",
+  reportToReview: "Questões para revisar",
+
+  // Leitores de tela e teclado
+  correct: "Correto",
+  incorrect: "Incorreto",
+  submit: "Enviar",
+  optionLabel: (number: number, option: string, isTried: boolean) => `${number}: ${option}${isTried ? ', já tentada' : ''}`,
+  keyboardHint: (count: number) => `Aperte de 1 a ${count} para escolher`,
+  stopAnnouncement: (turn: number, maxTurns: number, locationName: string, question: string) => `Parada ${turn} de ${maxTurns}: ${locationName}. ${question}`,
+
+  // Por que uma opção errada está errada
+  misconceptionFeedback: {
+    'number-agreement': (answer: string, isPlural: boolean) => `"${answer}" está no ${isPlural ? 'plural' : 'singular'}. O verbo concorda com aquilo de que se fala: é uma coisa só ou várias?`,
+    'indirect-object-pronoun': (answer: string) => `"${answer}" aponta para a pessoa errada. Com quem isso acontece?`,
+    'non-reflexive': (answer: string) => `"${answer}" deixa de fora o "se", e esta frase precisa dele.`,
+    'wrong-tense': (answer: string) => `"${answer}" está em outro tempo verbal. Procure as pistas de tempo na frase.`,
+    'other': (answer: string) => `"${answer}" não cabe nesta frase.`,
+  },
+};
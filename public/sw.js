@@ -0,0 +1,105 @@
+// Aventura Gramatical service worker: keeps the app shell and imagery available on flaky classroom Wi-Fi.
+// Bump CACHE_VERSION whenever the list below changes.
+const CACHE_VERSION = 'v1';
+const CACHE_NAME = `aventura-gramatical-${CACHE_VERSION}`;
+
+// Same list as LOCATION_IMAGES in services/imagery.ts
+const LOCATION_TYPES = [
+  'library', 'gym', 'pool', 'pizza', 'food', 'store', 'park', 'coffee', 'outdoors', 'hospital', 'lab', 'stadium',
+];
+
+const PRECACHE_URLS = [
+  '/',
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/textures/aged-paper.svg',
+  ...LOCATION_TYPES.map(type => `/images/locations/${type}.svg`),
+];
+
+// Styling and fonts come from CDNs; without them the cached shell is unstyled
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+// The built bundle has hashed names, so read them out of index.html instead of listing them
+const bundleUrls = async () => {
+  const response = await fetch('/', { cache: 'no-store' });
+  const html = await response.text();
+  return Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), match => match[1]);
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll([...PRECACHE_URLS, ...(await bundleUrls())]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('aventura-gramatical-') && name !== CACHE_NAME).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Serve the cached copy straight away and refresh it in the background
+const staleWhileRevalidate = async request => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || refresh;
+};
+
+// Pages: the network when it answers (so new deploys show up), otherwise the cached shell
+const networkFirstPage = async request => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      cache.put('/', response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match('/')) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // Game turns always go to the quest server; caching them would replay stale turns
+    if (url.pathname.startsWith('/api/')) return;
+    if (request.mode === 'navigate') {
+      event.respondWith(networkFirstPage(request));
+      return;
+    }
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
@@ -0,0 +1,11 @@
+import { QuestPack } from "../types";
+import { MADRID_PACK } from "./madrid";
+import { MIZZOU_PACK } from "./mizzou";
+
+// Packs offered on the start screen, in display order. Add new campuses and cities here.
+export const QUEST_PACKS: QuestPack[] = [MIZZOU_PACK, MADRID_PACK];
+
+export const DEFAULT_PACK = MIZZOU_PACK;
+
+export const getQuestPack = (id: string): QuestPack | undefined =>
+  QUEST_PACKS.find(pack => pack.id === id);
@@ -0,0 +1,92 @@
+import { GameTurnData, QuestPack } from "../types";
+
+// Offline version of the tour, one turn per stop below
+const SCRIPTED_TURNS: GameTurnData[] = [
+  {
+    locationName: "Biblioteca Nacional de España",
+    locationType: "library",
+    englishQuestion: "We're at the National Library. What can't you do in the reading room?",
+    conceptKeywords: ["eat", "food", "drink", "snack"],
+    spanishConcept: "Exacto. En la sala de lectura no se permite comida.",
+    question: "En la sala de lectura _____ (prohibir) comer.",
+    options: ["se prohíbe", "se prohíben", "prohíbe"],
+    correctAnswer: "se prohíbe",
+    explanation: "The thing prohibited is an infinitive (comer), which counts as singular -> Se prohíbe."
+  },
+  {
+    locationName: "Mercado de San Miguel",
+    locationType: "store",
+    englishQuestion: "The Mercado de San Miguel is full of stalls. What can you find here?",
+    conceptKeywords: ["tapas", "food", "sell", "buy", "eat", "snack"],
+    spanishConcept: "Sí, aquí se venden tapas, aceitunas y jamón.",
+    question: "En el mercado _____ (vender) aceitunas y jamón.",
+    options: ["se venden", "se vende", "vende"],
+    correctAnswer: "se venden",
+    explanation: "Plural object (aceitunas y jamón) -> Se venden."
+  },
+  {
+    locationName: "Parque del Retiro",
+    locationType: "park",
+    englishQuestion: "There's a big lake in the Retiro. What do people do on it?",
+    conceptKeywords: ["boat", "row", "rent", "paddle"],
+    spanishConcept: "Claro. En el estanque se alquilan barcas.",
+    question: "En el estanque del Retiro _____ (alquilar) barcas.",
+    options: ["se alquilan", "se alquila", "alquilan se"],
+    correctAnswer: "se alquilan",
+    explanation: "Plural object (barcas) -> Se alquilan."
+  },
+  {
+    locationName: "Chocolatería San Ginés",
+    locationType: "coffee",
+    englishQuestion: "Lucía was dipping her churro too fast. What happened?",
+    conceptKeywords: ["drop", "fell", "fall", "chocolate", "broke", "slip"],
+    spanishConcept: "¡Pobre Lucía! El churro se le cayó en el chocolate.",
+    question: "¡Ay! A Lucía _____ (caer) el churro en el chocolate.",
+    options: ["se le cayó", "se le cayeron", "se me cayó"],
+    correctAnswer: "se le cayó",
+    explanation: "Se accidental: 'le' = Lucía, and the singular object (el churro) -> cayó."
+  },
+  {
+    locationName: "Estadio Santiago Bernabéu",
+    locationType: "stadium",
+    englishQuestion: "We made it to the Bernabéu, but something went wrong with our tickets. What happened?",
+    conceptKeywords: ["forgot", "lost", "forget", "lose", "home", "missing"],
+    spanishConcept: "¡Qué mala suerte! Las entradas se nos olvidaron en el hotel.",
+    question: "¡Qué mala suerte! _____ (olvidar) las entradas en el hotel.",
+    options: ["Se nos olvidaron", "Se nos olvidó", "Nos olvidamos se"],
+    correctAnswer: "Se nos olvidaron",
+    explanation: "Se accidental: 'nos' = we, and the plural object (las entradas) -> olvidaron.",
+    isGameOver: true
+  }
+];
+
+export const MADRID_PACK: QuestPack = {
+  id: 'madrid',
+  campusName: "Madrid city centre",
+  locationDescription: "Central Madrid, Spain",
+  // Puerta del Sol
+  coordinates: {
+    lat: 40.4168,
+    lng: -3.7038
+  },
+  topicIds: ['se-impersonal', 'se-accidental'],
+  turnCount: 5,
+  stops: [
+    { name: "Biblioteca Nacional de España", locationType: "library", grammarTarget: "Se Impersonal", scenarioHint: "No food in the reading room / 'Se prohíbe comer'", coordinates: { lat: 40.4237, lng: -3.6903 } },
+    { name: "Mercado de San Miguel", locationType: "store", grammarTarget: "Se Impersonal", scenarioHint: "Selling tapas / 'Se venden'", coordinates: { lat: 40.4154, lng: -3.7089 } },
+    { name: "Parque del Retiro", locationType: "park", grammarTarget: "Se Impersonal", scenarioHint: "Renting boats / 'Se alquilan barcas'", coordinates: { lat: 40.4175, lng: -3.6842 } },
+    { name: "Chocolatería San Ginés", locationType: "coffee", grammarTarget: "Se Accidental", scenarioHint: "Dropping a churro", coordinates: { lat: 40.417, lng: -3.7069 } },
+    { name: "Estadio Santiago Bernabéu", locationType: "stadium", grammarTarget: "Se Accidental", scenarioHint: "Forgetting the tickets", coordinates: { lat: 40.4531, lng: -3.6883 } },
+  ],
+  copy: {
+    title: "Aventura Madrid",
+    shortTitle: "Madrid Quest",
+    tagline: "Wandering the streets of Madrid...",
+    loadingText: "Walking to the Puerta del Sol...",
+    tourLabel: "City Tour",
+    finishTitle: "¡Madrileño de honor!",
+    finishSubtitle: "You've mastered the Se Impersonal streets of Madrid.",
+    restartLabel: "Plan Another Trip"
+  },
+  scriptedTurns: SCRIPTED_TURNS
+};
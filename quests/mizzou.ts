@@ -0,0 +1,152 @@
+import { GameTurnData, QuestPack } from "../types";
+
+// Offline version of the tour, one turn per stop below
+const SCRIPTED_TURNS: GameTurnData[] = [
+  {
+    locationName: "Ellis Library",
+    locationType: "library",
+    englishQuestion: "We are in Ellis Library. What is the most important rule in the reading rooms?",
+    conceptKeywords: ["quiet", "silence", "silent", "noise", "talk", "whisper"],
+    spanishConcept: "Exacto. Aquí se exige silencio total.",
+    question: "Aquí _____ (exigir) silencio.",
+    options: ["Se exige", "Se exigen", "Exige"],
+    correctAnswer: "Se exige",
+    explanation: "Singular object (silencio) -> Se exige."
+  },
+  {
+    locationName: "Mizzou Rec Complex",
+    locationType: "gym",
+    englishQuestion: "Carlos was lifting too much at the Rec. What do you think happened?",
+    conceptKeywords: ["drop", "fell", "fall", "slip", "weights", "hurt"],
+    spanishConcept: "¡Pobre Carlos! Las pesas se le cayeron sin querer.",
+    question: "¡Uy! A Carlos _____ (caer) las pesas.",
+    options: ["se le cayeron", "se le cayó", "se me cayeron"],
+    correctAnswer: "se le cayeron",
+    explanation: "Se accidental: 'le' = Carlos, and the plural object (las pesas) -> cayeron."
+  },
+  {
+    locationName: "The Columns (Francis Quadrangle)",
+    locationType: "park",
+    englishQuestion: "Everyone stops at The Columns. What do visitors usually do here?",
+    conceptKeywords: ["photo", "picture", "pic", "selfie", "camera"],
+    spanishConcept: "Sí, es el lugar más famoso para sacar fotos.",
+    question: "Frente a las Columnas _____ (sacar) muchas fotos.",
+    options: ["se sacan", "se saca", "saca"],
+    correctAnswer: "se sacan",
+    explanation: "Plural object (muchas fotos) -> Se sacan."
+  },
+  {
+    locationName: "Shakespeare's Pizza",
+    locationType: "pizza",
+    englishQuestion: "You bumped the table at Shakespeare's. What happened to your drink?",
+    conceptKeywords: ["spill", "spilt", "fell", "knock", "tip", "drop"],
+    spanishConcept: "¡Qué desastre! El refresco se me derramó por accidente.",
+    question: "¡Ay no! _____ (derramar) el refresco sobre la pizza.",
+    options: ["Se me derramó", "Se me derramaron", "Me derramó"],
+    correctAnswer: "Se me derramó",
+    explanation: "Se accidental: 'me' = I, and the singular object (el refresco) -> derramó."
+  },
+  {
+    locationName: "The Mizzou Store",
+    locationType: "store",
+    englishQuestion: "What can you buy at The Mizzou Store?",
+    conceptKeywords: ["book", "shirt", "clothes", "merch", "souvenir", "hoodie"],
+    spanishConcept: "Claro. En la tienda se venden libros y camisetas.",
+    question: "En la tienda _____ (vender) libros y camisetas.",
+    options: ["se venden", "se vende", "venden se"],
+    correctAnswer: "se venden",
+    explanation: "Plural object (libros y camisetas) -> Se venden."
+  },
+  {
+    locationName: "University Hospital",
+    locationType: "hospital",
+    englishQuestion: "How should visitors behave in the hallways of University Hospital?",
+    conceptKeywords: ["quiet", "softly", "whisper", "calm", "low", "voice"],
+    spanishConcept: "Correcto. Aquí se habla en voz baja.",
+    question: "En el hospital _____ (hablar) en voz baja.",
+    options: ["se habla", "se hablan", "habla"],
+    correctAnswer: "se habla",
+    explanation: "General rule with no plural object -> Se habla."
+  },
+  {
+    locationName: "Geology Building Museum",
+    locationType: "lab",
+    englishQuestion: "The fossils in the Geology museum are fragile. What does the sign say?",
+    conceptKeywords: ["touch", "handle", "hands"],
+    spanishConcept: "Exacto. Se prohíbe tocar las piezas.",
+    question: "En el museo _____ (prohibir) tocar los fósiles.",
+    options: ["se prohíbe", "se prohíben", "prohíbe"],
+    correctAnswer: "se prohíbe",
+    explanation: "The thing prohibited is an infinitive (tocar), which counts as singular -> Se prohíbe."
+  },
+  {
+    locationName: "Tiger Grotto",
+    locationType: "pool",
+    englishQuestion: "Tiger Grotto is open in winter too. What can people do there?",
+    conceptKeywords: ["swim", "pool", "water", "relax", "hot tub"],
+    spanishConcept: "Sí, en Tiger Grotto se nada todo el año.",
+    question: "En Tiger Grotto _____ (nadar) todo el año.",
+    options: ["se nada", "se nadan", "nada"],
+    correctAnswer: "se nada",
+    explanation: "Intransitive verb with no object -> Se nada (always singular)."
+  },
+  {
+    locationName: "Schlundt Hall Chemistry Lab",
+    locationType: "lab",
+    englishQuestion: "What is the first safety rule in the chemistry lab?",
+    conceptKeywords: ["goggles", "glasses", "eye", "protect", "gloves", "safety"],
+    spanishConcept: "Muy bien. En el laboratorio se protegen los ojos.",
+    question: "En el laboratorio _____ (proteger) los ojos con gafas.",
+    options: ["se protegen", "se protege", "protegen"],
+    correctAnswer: "se protegen",
+    explanation: "Plural object (los ojos) -> Se protegen."
+  },
+  {
+    locationName: "Faurot Field at Memorial Stadium",
+    locationType: "stadium",
+    englishQuestion: "It's game day at Memorial Stadium. What does the crowd do?",
+    conceptKeywords: ["cheer", "shout", "yell", "chant", "scream", "sing"],
+    spanishConcept: "¡Claro! En el estadio se grita MIZ-ZOU.",
+    question: "En el estadio _____ (gritar) 'MIZ-ZOU' con mucha energía.",
+    options: ["se grita", "se gritan", "grita"],
+    correctAnswer: "se grita",
+    explanation: "The chant is one thing being shouted -> Se grita.",
+    isGameOver: true
+  }
+];
+
+export const MIZZOU_PACK: QuestPack = {
+  id: 'mizzou',
+  campusName: "University of Missouri (Mizzou)",
+  locationDescription: "University of Missouri Campus (Columbia, MO)",
+  // University of Missouri, Columbia
+  coordinates: {
+    lat: 38.9404,
+    lng: -92.3277
+  },
+  topicIds: ['se-impersonal', 'se-accidental'],
+  turnCount: 10,
+  stops: [
+    { name: "Ellis Library", locationType: "library", grammarTarget: "Se Impersonal", scenarioHint: "Silence", coordinates: { lat: 38.9445, lng: -92.3263 } },
+    { name: "Mizzou Rec Complex", locationType: "gym", grammarTarget: "Se Accidental", scenarioHint: "Dropping weights", coordinates: { lat: 38.9412, lng: -92.3257 } },
+    { name: "The Columns / Francis Quadrangle", locationType: "park", grammarTarget: "Se Impersonal", scenarioHint: "Taking photos / 'Se sacan fotos'", coordinates: { lat: 38.9462, lng: -92.3287 } },
+    { name: "Shakespeare's Pizza", locationType: "pizza", grammarTarget: "Se Accidental", scenarioHint: "Spilling food/drink", coordinates: { lat: 38.9491, lng: -92.3276 } },
+    { name: "The Mizzou Store", locationType: "store", grammarTarget: "Se Impersonal", scenarioHint: "Selling books / 'Se venden'", coordinates: { lat: 38.9425, lng: -92.3268 } },
+    { name: "University Hospital", locationType: "hospital", grammarTarget: "Se Impersonal", scenarioHint: "Speaking softly / 'Se habla bajo'", coordinates: { lat: 38.938, lng: -92.3283 } },
+    { name: "Geology Building / Museum", locationType: "lab", grammarTarget: "Se Impersonal", scenarioHint: "Do not touch / 'Se prohíbe tocar'", coordinates: { lat: 38.9458, lng: -92.3245 } },
+    { name: "Tiger Grotto", locationType: "pool", grammarTarget: "Se Impersonal", scenarioHint: "Swimming / 'Se nada'", coordinates: { lat: 38.9408, lng: -92.325 } },
+    { name: "Chemistry/Science Lab", locationType: "lab", grammarTarget: "Se Impersonal", scenarioHint: "Safety / 'Se protegen los ojos'", coordinates: { lat: 38.9437, lng: -92.3227 } },
+    { name: "Memorial Stadium", locationType: "stadium", grammarTarget: "Se Impersonal", scenarioHint: "Cheering / 'Se grita MIZ-ZOU'", coordinates: { lat: 38.9359, lng: -92.3332 } },
+  ],
+  copy: {
+    title: "Aventura Mizzou",
+    shortTitle: "Mizzou Quest",
+    tagline: "Exploring campus mysteries...",
+    loadingText: "Walking to The Columns...",
+    tourLabel: "Campus Tour",
+    finishTitle: "Mizzou Master!",
+    finishSubtitle: "You've graduated from the Se Impersonal Quest.",
+    restartLabel: "Start New Semester"
+  },
+  scriptedTurns: SCRIPTED_TURNS
+};
@@ -0,0 +1,27 @@
+import { Coordinates, QuestPack } from "../types";
+
+export const NEARBY_PACK_ID = 'nearby';
+
+/**
+ * A pack with no fixed stops, anchored on the player's position.
+ * The prompt then asks the model to find real places around them.
+ */
+export const createNearbyPack = (coordinates: Coordinates): QuestPack => ({
+  id: NEARBY_PACK_ID,
+  campusName: "neighborhood around the player",
+  locationDescription: `Real places near latitude ${coordinates.lat.toFixed(4)}, longitude ${coordinates.lng.toFixed(4)}`,
+  coordinates,
+  topicIds: ['se-impersonal', 'se-accidental'],
+  turnCount: 10,
+  stops: [],
+  copy: {
+    title: "Aventura Local",
+    shortTitle: "Local Quest",
+    tagline: "Exploring your own neighborhood...",
+    loadingText: "Scouting nearby places...",
+    tourLabel: "Neighborhood Tour",
+    finishTitle: "¡Explorador Local!",
+    finishSubtitle: "You've turned your own streets into a Spanish classroom.",
+    restartLabel: "Explore Again"
+  }
+});
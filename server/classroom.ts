@@ -0,0 +1,234 @@
+import { randomInt, randomUUID } from "node:crypto";
+import { ClassroomProgress, ClassroomState, ClassroomStudent, DifficultyLevel, QuestPack, TurnResponse } from "../types";
+
+// No 0/O or 1/I, so codes survive being read off a projector
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 5;
+const MAX_STUDENTS = 60;
+
+// Classes nobody has touched for this long are dropped
+const CLASSROOM_TTL_MS = 6 * 60 * 60 * 1000;
+
+// Where a class's stops come from: one shared Gemini chat, or the pack's offline script
+export type TurnSource = (turnNumber: number) => Promise<TurnResponse>;
+
+interface Seat extends ClassroomProgress {
+  id: string;
+  name: string;
+  lastSeenAt: number;
+}
+
+interface Classroom {
+  code: string;
+  teacherToken: string;
+  pack: QuestPack;
+  topicIds: string[];
+  difficulty: DifficultyLevel | null;
+  paused: boolean;
+  openStop: number;
+  students: Map<string, Seat>;
+  turns: Promise<TurnResponse>[]; // Index n-1 holds stop n, generated once for the whole class
+  nextTurn: TurnSource;
+  lastUsedAt: number;
+}
+
+export type ClassroomAction = 'pause' | 'resume' | 'advance';
+
+// Thrown for a join code the server doesn't know (typo, expired, or the server restarted)
+export class UnknownClassroomError extends Error {
+  constructor(code: string) {
+    super(`No class with code "${code}"`);
+    this.name = 'UnknownClassroomError';
+  }
+}
+
+// A classroom request that isn't allowed right now; `status` is the HTTP status to answer with
+export class ClassroomError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ClassroomError';
+  }
+}
+
+const accuracy = (student: ClassroomStudent) =>
+  student.stopsCompleted ? student.firstTryCorrect / student.stopsCompleted : 0;
+
+// Furthest along first, then first-try accuracy, then points
+const compareStudents = (a: ClassroomStudent, b: ClassroomStudent) =>
+  b.stopsCompleted - a.stopsCompleted || accuracy(b) - accuracy(a) || b.points - a.points || a.name.localeCompare(b.name);
+
+/**
+ * In-memory classes for one quest server. A teacher creates a class and gets a join code;
+ * every student in it plays the same stops, in the teacher's pace.
+ */
+export const createClassroomStore = () => {
+  const classrooms = new Map<string, Classroom>();
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - CLASSROOM_TTL_MS;
+    for (const [code, classroom] of classrooms) {
+      if (classroom.lastUsedAt < cutoff) classrooms.delete(code);
+    }
+  }, 10 * 60 * 1000);
+  sweep.unref();
+
+  const newCode = (): string => {
+    let code: string;
+    do {
+      code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+    } while (classrooms.has(code));
+    return code;
+  };
+
+  const get = (code: string): Classroom => {
+    const classroom = classrooms.get(code.trim().toUpperCase());
+    if (!classroom) {
+      throw new UnknownClassroomError(code);
+    }
+    classroom.lastUsedAt = Date.now();
+    return classroom;
+  };
+
+  const getStudent = (classroom: Classroom, studentId: string): Seat => {
+    const student = classroom.students.get(studentId);
+    if (!student) {
+      throw new ClassroomError(404, "You are not in this class, please join again");
+    }
+    student.lastSeenAt = Date.now();
+    return student;
+  };
+
+  const requireTeacher = (classroom: Classroom, teacherToken: string) => {
+    if (teacherToken !== classroom.teacherToken) {
+      throw new ClassroomError(403, "Only the teacher who created this class can do that");
+    }
+  };
+
+  // What everyone in the class may see; the teacher's view adds each student's misconceptions and blocked inputs
+  const toState = (classroom: Classroom, forTeacher = false): ClassroomState => ({
+    code: classroom.code,
+    packId: classroom.pack.id,
+    topicIds: classroom.topicIds,
+    difficulty: classroom.difficulty,
+    maxTurns: classroom.pack.turnCount,
+    paused: classroom.paused,
+    openStop: classroom.openStop,
+    students: Array.from(classroom.students.values(), ({ id, misconceptions, blockedInputs, ...student }) =>
+      forTeacher ? { ...student, misconceptions, blockedInputs } : student
+    ).sort(compareStudents),
+  });
+
+  const create = (pack: QuestPack, topicIds: string[], difficulty: DifficultyLevel | null, nextTurn: TurnSource) => {
+    const classroom: Classroom = {
+      code: newCode(),
+      teacherToken: randomUUID(),
+      pack,
+      topicIds,
+      difficulty,
+      paused: false,
+      openStop: 1,
+      students: new Map(),
+      turns: [],
+      nextTurn,
+      lastUsedAt: Date.now(),
+    };
+    classrooms.set(classroom.code, classroom);
+    return { teacherToken: classroom.teacherToken, state: toState(classroom, true) };
+  };
+
+  /**
+   * A seat in the class. Only the student id handed out at the first join gets a seat back (a reloaded tab):
+   * names are shown to the whole class, so a name alone never does, and each name is taken once.
+   */
+  const join = (code: string, name: string, studentId?: string) => {
+    const classroom = get(code);
+    const returning = studentId ? classroom.students.get(studentId) : undefined;
+    if (returning) {
+      returning.lastSeenAt = Date.now();
+      return { studentId: returning.id, state: toState(classroom) };
+    }
+    const nameTaken = Array.from(classroom.students.values())
+      .some(student => student.name.toLowerCase() === name.toLowerCase());
+    if (nameTaken) {
+      throw new ClassroomError(409, `Someone in this class is already called "${name}". Add your last initial and join again.`);
+    }
+    if (classroom.students.size >= MAX_STUDENTS) {
+      throw new ClassroomError(409, "This class is full");
+    }
+
+    const student: Seat = {
+      id: randomUUID(),
+      name,
+      currentTurn: 1,
+      stopsCompleted: 0,
+      firstTryCorrect: 0,
+      points: 0,
+      misconceptions: {},
+      blockedInputs: [],
+      finished: false,
+      lastSeenAt: Date.now(),
+    };
+    classroom.students.set(student.id, student);
+    return { studentId: student.id, state: toState(classroom) };
+  };
+
+  // Whether a seat exists, without the errors of getStudent; for telling a class's requests apart
+  const hasStudent = (code: string, studentId: string): boolean =>
+    classrooms.get(code.trim().toUpperCase())?.students.has(studentId) ?? false;
+
+  // With the teacher's token, the teacher's view
+  const state = (code: string, teacherToken?: string): ClassroomState => {
+    const classroom = get(code);
+    if (teacherToken === undefined) return toState(classroom);
+    requireTeacher(classroom, teacherToken);
+    return toState(classroom, true);
+  };
+
+  const reportProgress = (code: string, studentId: string, progress: ClassroomProgress): ClassroomState => {
+    const classroom = get(code);
+    Object.assign(getStudent(classroom, studentId), progress);
+    return toState(classroom);
+  };
+
+  /**
+   * Stop n for a student. Stops are generated in order and shared, so the whole class
+   * sees the same places; a failed generation is forgotten and retried by the next request.
+   * `beforeGenerate` runs before a request starts generating and may throw to refuse it (the rate limit);
+   * requests for stops already generated, or not open yet, never call it.
+   */
+  const turn = (code: string, studentId: string, turnNumber: number, beforeGenerate?: () => void): Promise<TurnResponse> => {
+    const classroom = get(code);
+    getStudent(classroom, studentId);
+    if (turnNumber < 1 || turnNumber > classroom.pack.turnCount) {
+      throw new ClassroomError(400, `This tour has no stop ${turnNumber}`);
+    }
+    if (turnNumber > classroom.openStop) {
+      throw new ClassroomError(409, "Waiting for the teacher to open the next stop");
+    }
+    if (classroom.turns.length < turnNumber) beforeGenerate?.();
+
+    for (let n = classroom.turns.length + 1; n <= turnNumber; n++) {
+      const previous = classroom.turns[n - 2] ?? Promise.resolve();
+      const generated = previous.then(() => classroom.nextTurn(n));
+      generated.catch(() => {
+        // Drop this stop and everything chained after it
+        if (classroom.turns[n - 1] === generated) classroom.turns.length = n - 1;
+      });
+      classroom.turns.push(generated);
+    }
+    return classroom.turns[turnNumber - 1];
+  };
+
+  const control = (code: string, teacherToken: string, action: ClassroomAction): ClassroomState => {
+    const classroom = get(code);
+    requireTeacher(classroom, teacherToken);
+    if (action === 'pause') classroom.paused = true;
+    if (action === 'resume') classroom.paused = false;
+    if (action === 'advance') classroom.openStop = Math.min(classroom.openStop + 1, classroom.pack.turnCount);
+    return toState(classroom, true);
+  };
+
+  return { create, join, hasStudent, state, reportProgress, turn, control };
+};
+
+export type ClassroomStore = ReturnType<typeof createClassroomStore>;
@@ -0,0 +1,156 @@
+import { readFileSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { Coordinates, GroundingChunk } from "../types";
+import { ChatSetup, ModelChat, ModelClient, TextListener } from "./model";
+
+const FIXTURE_FORMAT = 'aventura-gramatical/fixture';
+const FIXTURE_VERSION = 1;
+
+// One request to the model and its raw reply
+export interface FixtureExchange {
+  kind: 'chat' | 'generate'; // A quest chat message (turns and repairs), or a single prompt (bridge, variant, concept)
+  prompt: string;
+  text: string;
+  groundingChunks?: GroundingChunk[];
+}
+
+// Everything the model was asked and answered during one quest session
+export interface SessionFixture {
+  format: typeof FIXTURE_FORMAT;
+  version: number;
+  recordedAt: string;
+  systemInstruction: string;
+  position: Coordinates;
+  historyLength: number; // Messages replayed into the chat when a saved tour was resumed
+  exchanges: FixtureExchange[];
+}
+
+// Thrown when a replay is asked for something the fixture never recorded
+export class FixtureExhaustedError extends Error {
+  constructor(prompt: string) {
+    super(`The fixture has no recorded reply for "${prompt.trim().slice(0, 60)}"`);
+    this.name = 'FixtureExhaustedError';
+  }
+}
+
+/**
+ * Wraps a live client and writes each quest session to its own JSON file in `dir` as it is played.
+ * The file is rewritten after every exchange, so a session cut short still leaves a usable fixture.
+ * Single prompts sent without a quest are passed through unrecorded.
+ */
+export const createRecordingClient = (inner: ModelClient, dir: string): ModelClient => {
+  const fixtures = new WeakMap<ModelChat, { file: string; fixture: SessionFixture; saving: Promise<void> }>();
+  let count = 0;
+
+  const record = (chat: ModelChat, exchange: FixtureExchange) => {
+    const entry = fixtures.get(chat);
+    if (!entry) return;
+    entry.fixture.exchanges.push(exchange);
+    const json = JSON.stringify(entry.fixture, null, 2);
+    // One write at a time per file, in order
+    entry.saving = entry.saving
+      .then(() => writeFile(entry.file, json))
+      .catch(error => console.error(`Could not write fixture ${entry.file}:`, error));
+  };
+
+  const startChat = (setup: ChatSetup): ModelChat => {
+    const innerChat = inner.startChat(setup);
+    const chat: ModelChat = {
+      send: async (message, onText) => {
+        const reply = await innerChat.send(message, onText);
+        record(chat, { kind: 'chat', prompt: message, text: reply.text, groundingChunks: reply.groundingChunks });
+        return reply;
+      },
+    };
+
+    const recordedAt = new Date().toISOString();
+    const file = join(dir, `${recordedAt.replace(/[:.]/g, '-')}-${++count}.json`);
+    fixtures.set(chat, {
+      file,
+      fixture: {
+        format: FIXTURE_FORMAT,
+        version: FIXTURE_VERSION,
+        recordedAt,
+        systemInstruction: setup.systemInstruction,
+        position: setup.position,
+        historyLength: setup.history.length,
+        exchanges: [],
+      },
+      saving: mkdir(dir, { recursive: true }).then(() => undefined),
+    });
+    console.log(`Recording quest session to ${file}`);
+    return chat;
+  };
+
+  const generate = async (prompt: string, onText?: TextListener, chat?: ModelChat): Promise<string> => {
+    const text = await inner.generate(prompt, onText);
+    if (chat) record(chat, { kind: 'generate', prompt, text });
+    return text;
+  };
+
+  return { startChat, generate };
+};
+
+// Prompts are compared without the random boundaries that fence off student text
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/g;
+const samePrompt = (a: string, b: string) => a.replace(UUID_PATTERN, '') === b.replace(UUID_PATTERN, '');
+
+/**
+ * Plays a recorded session back with no network. Chat messages get the recorded replies in order,
+ * and every new quest starts again from the first one. A single prompt gets the reply recorded for
+ * the same prompt that its quest hasn't used yet, or else its next unused one, so a differently worded
+ * answer in Phase 1 still replays. Each quest keeps its own place; prompts sent without one share theirs.
+ * Replies are streamed as one piece; a prompt that doesn't match what was recorded is logged.
+ */
+export const createReplayClient = (fixture: SessionFixture): ModelClient => {
+  const chatExchanges = fixture.exchanges.filter(exchange => exchange.kind === 'chat');
+  const generateExchanges = fixture.exchanges.filter(exchange => exchange.kind === 'generate');
+  const usedByChat = new WeakMap<ModelChat, Set<FixtureExchange>>();
+  const usedWithoutChat = new Set<FixtureExchange>();
+
+  const startChat = (): ModelChat => {
+    let next = 0;
+    const chat: ModelChat = {
+      send: async (message, onText) => {
+        const exchange = chatExchanges[next++];
+        if (!exchange) {
+          throw new FixtureExhaustedError(message);
+        }
+        if (exchange.prompt !== message) {
+          console.warn(`Replay: sent "${message}" but the fixture recorded "${exchange.prompt}" here`);
+        }
+        if (exchange.text) onText?.(exchange.text);
+        return { text: exchange.text, groundingChunks: exchange.groundingChunks };
+      },
+    };
+    usedByChat.set(chat, new Set());
+    return chat;
+  };
+
+  const generate = async (prompt: string, onText?: TextListener, chat?: ModelChat): Promise<string> => {
+    const usedGenerates = (chat && usedByChat.get(chat)) ?? usedWithoutChat;
+    const unused = generateExchanges.filter(exchange => !usedGenerates.has(exchange));
+    const exchange = unused.find(candidate => samePrompt(candidate.prompt, prompt)) ?? unused[0];
+    if (!exchange) {
+      throw new FixtureExhaustedError(prompt);
+    }
+    if (!samePrompt(exchange.prompt, prompt)) {
+      console.warn("Replay: a single prompt differs from the recording, using the next recorded reply");
+    }
+    usedGenerates.add(exchange);
+    if (exchange.text) onText?.(exchange.text);
+    return exchange.text;
+  };
+
+  return { startChat, generate };
+};
+
+// Reads a fixture written by createRecordingClient. Throws with a readable message if it isn't one.
+export const loadFixture = (path: string): SessionFixture => {
+  const data = JSON.parse(readFileSync(path, 'utf8'));
+  if (data?.format !== FIXTURE_FORMAT || !Array.isArray(data.exchanges)) {
+    throw new Error(`${path} is not an Aventura Gramatical session fixture`);
+  }
+  return data as SessionFixture;
+};
@@ -0,0 +1,496 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { readFile, stat } from "node:fs/promises";
+import { extname, join, resolve, sep } from "node:path";
+import { BlockReason, BlockedInput, GameTurnData, LanguageId, MisconceptionCounts, QuestPack } from "../types";
+import { isLanguageId } from "../i18n";
+import { isDifficultyLevel } from "../services/difficulty";
+import { MISCONCEPTION_TAGS } from "../services/misconceptions";
+import { BLOCK_REASON_LABELS, MAX_LEARNER_TEXT_LENGTH, MAX_REPORTED_BLOCKED_INPUTS, sanitizeLearnerText, screenLearnerText } from "../services/inputGuard";
+import { getQuestPack } from "../quests";
+import { NEARBY_PACK_ID, createNearbyPack } from "../quests/nearby";
+import { validateTurnData } from "../services/validation";
+import { turnMessage } from "../services/provider";
+import { getScriptedTurn } from "../services/scripted";
+import { ClassroomAction, ClassroomError, ClassroomStore, TurnSource, UnknownClassroomError, createClassroomStore } from "./classroom";
+import { createRecordingClient, createReplayClient, loadFixture } from "./fixtures";
+import { GeminiBackend, StreamListener, UnknownSessionError, createGeminiBackend } from "./gemini";
+import { ModelClient, createGeminiClient } from "./model";
+import { RateLimiter, createRateLimiter } from "./rateLimit";
+
+const PORT = Number(process.env.PORT) || 3000;
+const STATIC_DIR = resolve(process.env.STATIC_DIR || 'dist');
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 30;
+// Behind Render or nginx the client address is in X-Forwarded-For; only trust it when told to
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+// Debugging: save every quest session to a fixture file, or play one fixture back instead of calling Gemini
+const RECORD_DIR = process.env.QUEST_RECORD_DIR;
+const REPLAY_FILE = process.env.QUEST_REPLAY;
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_TEXT_LENGTH = 500;
+const TURN_MESSAGE_PATTERN = /^(START_GAME|NEXT_TURN_\d{1,2})( DIFFICULTY=(easy|medium|hard))?$/;
+const MAX_NAME_LENGTH = 40;
+const CLASSROOM_ACTIONS: ClassroomAction[] = ['pause', 'resume', 'advance'];
+
+// Classroom polling costs no model quota, so it doesn't count against the rate limit. A whole class can share
+// one school address, and students retry /turn until the teacher opens the stop; only the request that
+// actually generates a stop is counted (see handleClassroom).
+const UNLIMITED_PATHS = new Set(['/api/classroom/state', '/api/classroom/progress', '/api/classroom/turn']);
+// The single prompts a student sends during a class. With a valid seat (`code` and `studentId` in the body) they
+// count against that student's own limit instead of the shared address; without one, against the address.
+const SEAT_LIMITED_PATHS = new Set(['/api/bridge', '/api/concept']);
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.webmanifest': 'application/manifest+json',
+};
+
+// A request problem the client should hear about, with its HTTP status
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const clientId = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// Counts one request against the client's limit; throws a 429 once it's used up
+const enforceRateLimit = (limiter: RateLimiter, client: string, res: ServerResponse) => {
+  const decision = limiter.take(client);
+  res.setHeader('X-RateLimit-Limit', RATE_LIMIT_PER_MINUTE);
+  res.setHeader('X-RateLimit-Remaining', decision.remaining);
+  if (!decision.allowed) {
+    res.setHeader('Retry-After', decision.retryAfterSeconds);
+    throw new HttpError(429, "Too many requests, slow down a little");
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Streams a model call as newline-delimited JSON events:
+ * {"type":"text","text":"..."} and {"type":"retry"} while it runs, then one {"type":"done",...payload}
+ * or {"type":"error","error":"..."}. Errors after the first byte can only be reported in-band.
+ */
+const streamNdjson = async (res: ServerResponse, run: (listener: StreamListener) => Promise<Record<string, unknown>>) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store', 'X-Accel-Buffering': 'no' });
+  const send = (event: Record<string, unknown>) => res.write(`${JSON.stringify(event)}\n`);
+  try {
+    const payload = await run({
+      onText: text => send({ type: 'text', text }),
+      onRetry: () => send({ type: 'retry' }),
+    });
+    send({ type: 'done', ...payload });
+  } catch (error) {
+    console.error("Streamed request failed:", error);
+    send({ type: 'error', error: error instanceof UnknownSessionError ? error.message : "The quest service failed, please try again" });
+  }
+  res.end();
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body;
+  } catch {
+    // Fall through to the 400 below
+  }
+  throw new HttpError(400, "Body must be a JSON object");
+};
+
+const requireText = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${field}" must be a non-empty string`);
+  }
+  if (value.length > MAX_TEXT_LENGTH) {
+    throw new HttpError(400, `"${field}" is longer than ${MAX_TEXT_LENGTH} characters`);
+  }
+  return value;
+};
+
+// Text from the browser that goes into a prompt: cleaned, cut to length, and refused if it tries to instruct
+// the model. The browser screens student answers first, so this only trips for requests that skipped the app.
+// Stop text (the concept, the question) is checked too, since it comes back from the browser with each request.
+const requireScreenedText = (value: unknown, field: string, maxLength = MAX_LEARNER_TEXT_LENGTH): string => {
+  const text = sanitizeLearnerText(requireText(value, field), maxLength);
+  const reason = screenLearnerText(text);
+  if (reason) {
+    console.warn(`Blocked "${field}": ${reason}`); // Never the text itself
+    throw new HttpError(422, `"${field}" can't be sent to the model`);
+  }
+  if (!text) {
+    throw new HttpError(400, `"${field}" must be a non-empty string`);
+  }
+  return text;
+};
+
+const requireCount = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 1000000) {
+    throw new HttpError(400, `"${field}" must be a whole number`);
+  }
+  return value;
+};
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Only known tags with whole-number counts; anything else is dropped
+const readMisconceptionCounts = (value: unknown): MisconceptionCounts => {
+  const counts: MisconceptionCounts = {};
+  if (typeof value !== 'object' || value === null) return counts;
+  for (const tag of MISCONCEPTION_TAGS) {
+    const count = (value as Record<string, unknown>)[tag];
+    if (count !== undefined) counts[tag] = requireCount(count, `misconceptions.${tag}`);
+  }
+  return counts;
+};
+
+// Ties single prompts to their quest in a recording; never required
+const optionalSessionId = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length <= MAX_TEXT_LENGTH ? value : undefined;
+
+// The teacher's log, as reported by the student's browser: malformed entries are dropped
+const readBlockedInputs = (value: unknown): BlockedInput[] => {
+  if (!Array.isArray(value)) return [];
+  return value.slice(-MAX_REPORTED_BLOCKED_INPUTS).flatMap(entry => {
+    const { turn, text, reason, at } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof text !== 'string' || !(typeof reason === 'string' && reason in BLOCK_REASON_LABELS)) return [];
+    return [{
+      turn: typeof turn === 'number' && Number.isInteger(turn) ? turn : 0,
+      text: sanitizeLearnerText(text),
+      reason: reason as BlockReason,
+      at: typeof at === 'number' ? at : Date.now(),
+    }];
+  });
+};
+
+const optionalLanguage = (value: unknown): LanguageId | undefined =>
+  isLanguageId(value) ? value : undefined;
+
+// Turns coming back from the browser are checked like model output before they go into a chat history
+const requireTurn = (value: unknown, field: string): GameTurnData => {
+  const result = validateTurnData(value);
+  if (!result.ok || !result.turnData) {
+    throw new HttpError(400, `"${field}" is not a valid turn: ${result.errors.map(e => e.message).join('; ')}`);
+  }
+  return result.turnData;
+};
+
+// -- CLASSROOM --
+
+// The class shares one Gemini chat, or plays the pack's script when the server has no key
+const classroomTurnSource = (gemini: GeminiBackend | null, pack: QuestPack, topicIds: string[], language?: LanguageId): TurnSource => {
+  if (gemini) {
+    const sessionId = gemini.startQuest({ pack, topicIds, language });
+    return turnNumber => gemini.nextTurn(sessionId, turnMessage(turnNumber));
+  }
+  const turns = pack.scriptedTurns;
+  if (!turns?.length) {
+    throw new HttpError(400, `Quest pack "${pack.id}" has no offline script, and the server has no Gemini API key`);
+  }
+  return async turnNumber => ({ turnData: getScriptedTurn(turnMessage(turnNumber), turns) as GameTurnData });
+};
+
+// `countRequest` charges this client's rate limit, for the one classroom request that calls the model
+// (or the limit under `key`, when given)
+const handleClassroom = async (
+  classrooms: ClassroomStore,
+  gemini: GeminiBackend | null,
+  path: string,
+  body: Record<string, unknown>,
+  res: ServerResponse,
+  countRequest: (key?: string) => void
+) => {
+  switch (path) {
+    case '/api/classroom/create': {
+      const packId = requireText(body.packId, 'packId');
+      const pack = getQuestPack(packId);
+      if (!pack) {
+        throw new HttpError(400, `Unknown quest pack "${packId}"`);
+      }
+      const topicIds = Array.isArray(body.topicIds) && body.topicIds.length > 0
+        ? body.topicIds.filter((id): id is string => typeof id === 'string')
+        : pack.topicIds;
+      const language = optionalLanguage(body.language);
+      const difficulty = isDifficultyLevel(body.difficulty) ? body.difficulty : null;
+      sendJson(res, 200, classrooms.create(pack, topicIds, difficulty, classroomTurnSource(gemini, pack, topicIds, language)));
+      return;
+    }
+
+    case '/api/classroom/join': {
+      const name = requireText(body.name, 'name').trim();
+      if (name.length > MAX_NAME_LENGTH) {
+        throw new HttpError(400, `"name" is longer than ${MAX_NAME_LENGTH} characters`);
+      }
+      const studentId = body.studentId === undefined ? undefined : requireText(body.studentId, 'studentId');
+      sendJson(res, 200, classrooms.join(requireText(body.code, 'code'), name, studentId));
+      return;
+    }
+
+    case '/api/classroom/state': {
+      const teacherToken = body.teacherToken === undefined ? undefined : requireText(body.teacherToken, 'teacherToken');
+      sendJson(res, 200, classrooms.state(requireText(body.code, 'code'), teacherToken));
+      return;
+    }
+
+    case '/api/classroom/progress': {
+      const progress = {
+        currentTurn: requireCount(body.currentTurn, 'currentTurn'),
+        stopsCompleted: requireCount(body.stopsCompleted, 'stopsCompleted'),
+        firstTryCorrect: requireCount(body.firstTryCorrect, 'firstTryCorrect'),
+        points: requireCount(body.points, 'points'),
+        misconceptions: readMisconceptionCounts(body.misconceptions),
+        blockedInputs: readBlockedInputs(body.blockedInputs),
+        finished: body.finished === true,
+      };
+      sendJson(res, 200, classrooms.reportProgress(requireText(body.code, 'code'), requireText(body.studentId, 'studentId'), progress));
+      return;
+    }
+
+    case '/api/classroom/turn': {
+      const turnNumber = requireCount(body.turnNumber, 'turnNumber');
+      sendJson(res, 200, await classrooms.turn(requireText(body.code, 'code'), requireText(body.studentId, 'studentId'), turnNumber, countRequest));
+      return;
+    }
+
+    case '/api/classroom/control': {
+      const action = body.action as ClassroomAction;
+      if (!CLASSROOM_ACTIONS.includes(action)) {
+        throw new HttpError(400, `"action" must be one of ${CLASSROOM_ACTIONS.join(', ')}`);
+      }
+      sendJson(res, 200, classrooms.control(requireText(body.code, 'code'), requireText(body.teacherToken, 'teacherToken'), action));
+      return;
+    }
+
+    default:
+      throw new HttpError(404, "Not found");
+  }
+};
+
+// -- API --
+
+// The rate limit key for a request sent from a classroom seat, or undefined (the client's address) without a valid one
+const seatLimitKey = (classrooms: ClassroomStore, body: Record<string, unknown>): string | undefined => {
+  const { code, studentId } = body;
+  return typeof code === 'string' && typeof studentId === 'string' && classrooms.hasStudent(code, studentId)
+    ? `seat ${code.trim().toUpperCase()} ${studentId}`
+    : undefined;
+};
+
+const handleApi = async (gemini: GeminiBackend | null, classrooms: ClassroomStore, path: string, req: IncomingMessage, res: ServerResponse, countRequest: (key?: string) => void) => {
+  if (path === '/api/health' && req.method === 'GET') {
+    sendJson(res, 200, { ok: true, gemini: !!gemini });
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    throw new HttpError(405, "Method not allowed");
+  }
+
+  // Classes work without a key too: they fall back to the packs' offline scripts
+  if (path.startsWith('/api/classroom/')) {
+    await handleClassroom(classrooms, gemini, path, await readJsonBody(req), res, countRequest);
+    return;
+  }
+
+  if (!gemini) {
+    throw new HttpError(503, "The server has no Gemini API key configured");
+  }
+
+  const body = await readJsonBody(req);
+  if (SEAT_LIMITED_PATHS.has(path)) {
+    countRequest(seatLimitKey(classrooms, body));
+  }
+
+  switch (path) {
+    case '/api/quest/start': {
+      const packId = requireText(body.packId, 'packId');
+      const lat = optionalNumber(body.lat);
+      const lng = optionalNumber(body.lng);
+      const position = lat !== undefined && lng !== undefined ? { lat, lng } : undefined;
+
+      // The server builds the pack itself, so the browser can't rewrite the system instruction
+      const pack = packId === NEARBY_PACK_ID
+        ? position && createNearbyPack(position)
+        : getQuestPack(packId);
+      if (!pack) {
+        throw new HttpError(400, packId === NEARBY_PACK_ID ? "Near me needs lat and lng" : `Unknown quest pack "${packId}"`);
+      }
+
+      const topicIds = Array.isArray(body.topicIds) ? body.topicIds.filter((id): id is string => typeof id === 'string') : undefined;
+      const language = optionalLanguage(body.language);
+      const previousTurns = Array.isArray(body.previousTurns)
+        ? body.previousTurns.slice(0, pack.turnCount).map((turn, idx) => requireTurn(turn, `previousTurns[${idx}]`))
+        : [];
+
+      sendJson(res, 200, { sessionId: gemini.startQuest({ pack, topicIds, position, previousTurns, language }) });
+      return;
+    }
+
+    case '/api/quest/turn': {
+      const sessionId = requireText(body.sessionId, 'sessionId');
+      const message = requireText(body.message, 'message');
+      if (!TURN_MESSAGE_PATTERN.test(message)) {
+        throw new HttpError(400, `Unexpected turn message "${message}"`);
+      }
+      if (body.stream === true) {
+        await streamNdjson(res, async listener => ({ ...(await gemini.nextTurn(sessionId, message, listener)) }));
+      } else {
+        sendJson(res, 200, await gemini.nextTurn(sessionId, message));
+      }
+      return;
+    }
+
+    case '/api/bridge': {
+      const userInput = requireScreenedText(body.userInput, 'userInput');
+      const targetContext = requireScreenedText(body.targetContext, 'targetContext', MAX_TEXT_LENGTH);
+      const language = optionalLanguage(body.language);
+      const sessionId = optionalSessionId(body.sessionId);
+      if (body.stream === true) {
+        await streamNdjson(res, async listener => ({ text: await gemini.bridge(userInput, targetContext, language, listener, sessionId) }));
+      } else {
+        sendJson(res, 200, { text: await gemini.bridge(userInput, targetContext, language, undefined, sessionId) });
+      }
+      return;
+    }
+
+    case '/api/variant': {
+      const challenge = requireTurn(body.challenge, 'challenge');
+      sendJson(res, 200, { turnData: await gemini.variant(challenge, optionalSessionId(body.sessionId)) });
+      return;
+    }
+
+    case '/api/concept': {
+      const userInput = requireScreenedText(body.userInput, 'userInput');
+      const turn = requireTurn(body.challenge, 'challenge');
+      const challenge = {
+        ...turn,
+        locationName: requireScreenedText(turn.locationName, 'challenge.locationName', MAX_TEXT_LENGTH),
+        englishQuestion: requireScreenedText(turn.englishQuestion, 'challenge.englishQuestion', MAX_TEXT_LENGTH),
+        spanishConcept: requireScreenedText(turn.spanishConcept, 'challenge.spanishConcept', MAX_TEXT_LENGTH),
+      };
+      sendJson(res, 200, { evaluation: await gemini.evaluateConcept(userInput, challenge, optionalLanguage(body.language), optionalSessionId(body.sessionId)) });
+      return;
+    }
+
+    default:
+      throw new HttpError(404, "Not found");
+  }
+};
+
+// -- STATIC FILES --
+
+// null for a malformed path ("/%E0%A4%A"), which can't name a built file
+const decodePath = (path: string): string | null => {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return null;
+  }
+};
+
+const serveStatic = async (path: string, res: ServerResponse) => {
+  // Anything that isn't a built file gets the app shell, so reloads on any URL work
+  const decoded = decodePath(path);
+  let filePath = resolve(join(STATIC_DIR, decoded ?? 'index.html'));
+  if (!filePath.startsWith(STATIC_DIR + sep)) {
+    filePath = join(STATIC_DIR, 'index.html');
+  }
+  const isFile = await stat(filePath).then(info => info.isFile(), () => false);
+  if (!isFile) {
+    filePath = join(STATIC_DIR, 'index.html');
+  }
+
+  const content = await readFile(filePath);
+  res.writeHead(200, {
+    'Content-Type': MIME_TYPES[extname(filePath)] || 'application/octet-stream',
+    // Vite fingerprints everything under assets/, so those never change
+    'Cache-Control': filePath.includes(`${sep}assets${sep}`) ? 'public, max-age=31536000, immutable' : 'no-cache',
+  });
+  res.end(content);
+};
+
+// -- SERVER --
+
+const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
+
+// A replay needs no key and never touches the network
+const createModelClient = (): ModelClient | null => {
+  if (REPLAY_FILE) return createReplayClient(loadFixture(REPLAY_FILE));
+  if (!apiKey) return null;
+  const live = createGeminiClient(apiKey);
+  return RECORD_DIR ? createRecordingClient(live, RECORD_DIR) : live;
+};
+
+const modelClient = createModelClient();
+const gemini = modelClient ? createGeminiBackend(modelClient) : null;
+const geminiMode = REPLAY_FILE ? `replaying ${REPLAY_FILE}` : !gemini ? 'off' : RECORD_DIR ? `on, recording to ${RECORD_DIR}` : 'on';
+const limiter = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60 * 1000);
+const classrooms = createClassroomStore();
+
+const server = createServer(async (req, res) => {
+  const startedAt = Date.now();
+  const client = clientId(req);
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+  // One line per request; bodies are never logged since they hold student answers
+  res.on('finish', () => {
+    console.log(`${new Date().toISOString()} ${client} ${req.method} ${path} ${res.statusCode} ${Date.now() - startedAt}ms`);
+  });
+
+  try {
+    if (path.startsWith('/api/')) {
+      const countRequest = (key?: string) => enforceRateLimit(limiter, key ?? client, res);
+      if (!UNLIMITED_PATHS.has(path) && !SEAT_LIMITED_PATHS.has(path)) {
+        countRequest();
+      }
+      await handleApi(gemini, classrooms, path, req, res, countRequest);
+    } else if (req.method === 'GET' || req.method === 'HEAD') {
+      await serveStatic(path, res);
+    } else {
+      throw new HttpError(405, "Method not allowed");
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+    } else if (error instanceof UnknownSessionError || error instanceof UnknownClassroomError) {
+      sendJson(res, 404, { error: error.message });
+    } else if (error instanceof ClassroomError) {
+      sendJson(res, error.status, { error: error.message });
+    } else {
+      console.error(`${req.method} ${path} failed:`, error);
+      if (!res.headersSent) sendJson(res, 502, { error: "The quest service failed, please try again" });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Aventura Gramatical on http://localhost:${PORT} (static: ${STATIC_DIR}, Gemini: ${geminiMode})`);
+});
@@ -0,0 +1,91 @@
+import { GoogleGenAI, Chat, Content } from "@google/genai";
+import { Coordinates, GroundingChunk } from "../types";
+
+const MODEL_NAME = 'gemini-2.5-flash';
+
+// Receives model text as it streams in
+export type TextListener = (delta: string) => void;
+
+// One raw model reply, before any parsing
+export interface ModelReply {
+  text: string;
+  groundingChunks?: GroundingChunk[];
+}
+
+export interface ChatSetup {
+  systemInstruction: string;
+  history: Content[];
+  position: Coordinates; // Where Maps grounding searches
+}
+
+export interface ModelChat {
+  send: (message: string, onText?: TextListener) => Promise<ModelReply>;
+}
+
+/**
+ * The raw model calls the quest backend makes: one chat per quest, plus single prompts
+ * (bridge, review variant, concept check). Swapped out to record a session or replay one.
+ */
+export interface ModelClient {
+  startChat: (setup: ChatSetup) => ModelChat;
+  // `chat` is the quest the prompt belongs to, when there is one
+  generate: (prompt: string, onText?: TextListener, chat?: ModelChat) => Promise<string>;
+}
+
+// One chat message, streamed. Grounding usually arrives with the last chunk.
+const sendStreamed = async (chat: Chat, message: string, onText?: TextListener): Promise<ModelReply> => {
+  let text = '';
+  let groundingChunks: GroundingChunk[] | undefined;
+  for await (const chunk of await chat.sendMessageStream({ message })) {
+    const delta = chunk.text || '';
+    if (delta) {
+      text += delta;
+      onText?.(delta);
+    }
+    const chunkGrounding = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+    if (chunkGrounding?.length) {
+      groundingChunks = chunkGrounding as GroundingChunk[];
+    }
+  }
+  return { text, groundingChunks };
+};
+
+// The live Gemini API
+export const createGeminiClient = (apiKey: string): ModelClient => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const startChat = ({ systemInstruction, history, position }: ChatSetup): ModelChat => {
+    // IMPORTANT: Removed responseMimeType and responseSchema to fix "unsupported" error with Maps
+    const chat = ai.chats.create({
+      model: MODEL_NAME,
+      history,
+      config: {
+        systemInstruction,
+        tools: [{ googleMaps: {} }],
+        toolConfig: {
+          retrievalConfig: {
+            latLng: { latitude: position.lat, longitude: position.lng }
+          }
+        },
+      },
+    });
+    return { send: (message, onText) => sendStreamed(chat, message, onText) };
+  };
+
+  // A fresh single-turn generation, no game history. Streamed only when someone is listening.
+  const generate = async (prompt: string, onText?: TextListener): Promise<string> => {
+    if (!onText) {
+      const response = await ai.models.generateContent({ model: MODEL_NAME, contents: prompt });
+      return response.text || '';
+    }
+    let text = '';
+    for await (const chunk of await ai.models.generateContentStream({ model: MODEL_NAME, contents: prompt })) {
+      const delta = chunk.text || '';
+      text += delta;
+      if (delta) onText(delta);
+    }
+    return text;
+  };
+
+  return { startChat, generate };
+};
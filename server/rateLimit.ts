@@ -0,0 +1,45 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window limiter: each client gets `limit` requests per `windowMs`.
+ * Every Gemini call costs us quota, so one noisy tab can't drain it for the class.
+ */
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const windows = new Map<string, Window>();
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [clientId, window] of windows) {
+      if (window.resetAt <= now) windows.delete(clientId);
+    }
+  }, windowMs);
+  sweep.unref();
+
+  const take = (clientId: string): RateLimitDecision => {
+    const now = Date.now();
+    let window = windows.get(clientId);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(clientId, window);
+    }
+
+    if (window.count >= limit) {
+      return { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000) };
+    }
+    window.count++;
+    return { allowed: true, remaining: limit - window.count, retryAfterSeconds: 0 };
+  };
+
+  return { take };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,23 @@
+// Same-origin by default: the quest server (server/index.ts) serves the app and the API
+export const API_BASE = process.env.QUEST_SERVER_URL || '';
+
+// The quest server answered with an error; `status` is its HTTP status
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const postJson = async <T>(path: string, body: unknown): Promise<T> => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(response.status, data.error || `Quest server returned ${response.status}`);
+  }
+  return data as T;
+};
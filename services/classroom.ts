@@ -0,0 +1,122 @@
+import { ClassroomProgress, ClassroomState, DifficultyLevel, LanguageId, TurnResponse } from "../types";
+import { ApiError, postJson } from "./api";
+import { createGeminiProvider } from "./gemini";
+import { QuestProvider, parseTurnNumber } from "./provider";
+
+// How often members refresh the class state, and retry a stop the teacher hasn't opened yet (or the server rate-limited)
+export const CLASSROOM_POLL_MS = 3000;
+
+const TEACHER_STORAGE_KEY = 'aventura-gramatical:classroom-teacher';
+const SEAT_STORAGE_KEY = 'aventura-gramatical:classroom-seat';
+
+// A student's seat in a class
+export interface ClassroomMembership {
+  code: string;
+  studentId: string;
+  name: string;
+}
+
+// What the teacher's browser keeps to control its class
+export interface TeacherClassroom {
+  code: string;
+  teacherToken: string;
+}
+
+// The class's stops are written in the teacher's language; a pinned difficulty holds for every student
+export const createClassroom = (packId: string, topicIds?: string[], language?: LanguageId, difficulty?: DifficultyLevel | null) =>
+  postJson<{ teacherToken: string; state: ClassroomState }>('/api/classroom/create', { packId, topicIds, language, difficulty });
+
+// Rejoining the same class from this tab sends the seat's id, which is the only way to get the seat back
+export const joinClassroom = (code: string, name: string) => {
+  const normalizedCode = code.trim().toUpperCase();
+  const seat = loadClassroomSeat();
+  const studentId = seat?.code === normalizedCode ? seat.studentId : undefined;
+  return postJson<{ studentId: string; state: ClassroomState }>('/api/classroom/join', { code: normalizedCode, name: name.trim(), studentId });
+};
+
+// The teacher's token gets the teacher's view, with each student's misconceptions and blocked inputs
+export const fetchClassroomState = (code: string, teacherToken?: string) =>
+  postJson<ClassroomState>('/api/classroom/state', { code, teacherToken });
+
+export const reportClassroomProgress = (membership: ClassroomMembership, progress: ClassroomProgress) =>
+  postJson<ClassroomState>('/api/classroom/progress', { code: membership.code, studentId: membership.studentId, ...progress });
+
+export const controlClassroom = (teacher: TeacherClassroom, action: 'pause' | 'resume' | 'advance') =>
+  postJson<ClassroomState>('/api/classroom/control', { ...teacher, action });
+
+// A student's seat survives a reload of the tab, like the teacher's class
+const loadClassroomSeat = (): ClassroomMembership | null => {
+  try {
+    const raw = sessionStorage.getItem(SEAT_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as ClassroomMembership : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveClassroomSeat = (membership: ClassroomMembership) => {
+  try {
+    sessionStorage.setItem(SEAT_STORAGE_KEY, JSON.stringify(membership));
+  } catch (error) {
+    console.error("Failed to remember the class seat:", error);
+  }
+};
+
+// The teacher's class survives a reload of the dashboard, but not closing the tab
+export const loadTeacherClassroom = (): TeacherClassroom | null => {
+  try {
+    const raw = sessionStorage.getItem(TEACHER_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as TeacherClassroom : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveTeacherClassroom = (teacher: TeacherClassroom | null) => {
+  try {
+    if (teacher) {
+      sessionStorage.setItem(TEACHER_STORAGE_KEY, JSON.stringify(teacher));
+    } else {
+      sessionStorage.removeItem(TEACHER_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Failed to remember the class:", error);
+  }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Plays a class's shared stops. Turns come from the classroom on the quest server, so every
+ * student sees the same places; bridges, concept checks and variants still go to `base`. With the live model
+ * they carry the student's seat, so the server counts them against the student rather than the school's address.
+ * A stop the teacher hasn't opened yet is retried until it opens, or until `close()`. So is a rate-limited
+ * request: a whole class can share one school address.
+ */
+export const createClassroomProvider = (membership: ClassroomMembership, base: QuestProvider) => {
+  let closed = false;
+  const single = base.id === 'gemini' ? createGeminiProvider(membership) : base;
+
+  const sendMessage = async (message: string): Promise<TurnResponse> => {
+    const turnNumber = parseTurnNumber(message);
+    while (true) {
+      try {
+        return await postJson<TurnResponse>('/api/classroom/turn', { code: membership.code, studentId: membership.studentId, turnNumber });
+      } catch (error) {
+        if (closed || !(error instanceof ApiError) || (error.status !== 409 && error.status !== 429)) throw error;
+        await wait(CLASSROOM_POLL_MS);
+      }
+    }
+  };
+
+  const provider: QuestProvider = {
+    id: base.id,
+    initChat: async () => {}, // The class's chat lives on the server
+    sendMessage,
+    generateBridgeResponse: single.generateBridgeResponse,
+    generateVariant: single.generateVariant,
+    evaluateConcept: single.evaluateConcept,
+  };
+
+  return { ...provider, close: () => { closed = true; } };
+};
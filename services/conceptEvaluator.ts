@@ -0,0 +1,67 @@
+import { ConceptEvaluation, ConceptVerdict, GameTurnData, LanguageId } from "../types";
+import { getStrings } from "../i18n";
+
+const VERDICTS: ConceptVerdict[] = ['on-target', 'partial', 'off-target'];
+
+// Answers that don't try to answer at all
+const NON_ANSWER = /^(i\s*(don'?t|do not)\s*know|idk|no idea|dunno|not sure|nothing|pass|no s[eé]|n[aã]o sei|\?+)$/;
+
+// "photos" and "photograph" both match the keyword "photo"; short keywords must match as a prefix
+const matchesKeyword = (answer: string, words: string[], keyword: string): boolean => {
+  const key = keyword.trim().toLowerCase();
+  if (!key) return false;
+  if (key.includes(' ')) return answer.includes(key);
+  const stem = key.length > 4 ? key.slice(0, -1) : key;
+  return words.some(word => word.startsWith(stem));
+};
+
+/**
+ * Rule-based evaluation of a Phase 1 English answer, used offline and whenever the model can't be reached.
+ * With `conceptKeywords` on the turn it can tell on-target from partial; without them any real attempt passes.
+ * The reason and guidance are in the learner's language.
+ */
+export const evaluateConceptLocally = (userInput: string, challenge: GameTurnData, language?: LanguageId): ConceptEvaluation => {
+  const strings = getStrings(language);
+  const answer = userInput.trim().toLowerCase().replace(/[.!?,;]+$/g, '');
+  const words = answer.match(/[a-záàâãéêíóôõúçñü']+/g) || [];
+
+  if (words.length === 0 || NON_ANSWER.test(answer)) {
+    return {
+      verdict: 'off-target',
+      reason: strings.conceptNoAnswer,
+      guidance: strings.conceptGuidance(challenge.locationName),
+    };
+  }
+
+  const keywords = challenge.conceptKeywords || [];
+  if (keywords.length === 0) {
+    return { verdict: 'on-target', reason: strings.conceptThanks };
+  }
+
+  const matched = keywords.find(keyword => matchesKeyword(answer, words, keyword));
+  if (matched) {
+    return { verdict: 'on-target', reason: strings.conceptKeyword(matched) };
+  }
+  return {
+    verdict: 'partial',
+    reason: strings.conceptPartial,
+    guidance: strings.conceptGuidance(challenge.locationName),
+  };
+};
+
+/**
+ * Checks a model's evaluation reply ({"verdict", "reason", "guidance"}).
+ * Returns null if it isn't usable, so the caller can fall back to the local rules.
+ */
+export const parseConceptEvaluation = (raw: unknown): ConceptEvaluation | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const data = raw as Record<string, unknown>;
+  if (!VERDICTS.includes(data.verdict as ConceptVerdict)) return null;
+  if (typeof data.reason !== 'string' || !data.reason.trim()) return null;
+
+  return {
+    verdict: data.verdict as ConceptVerdict,
+    reason: data.reason.trim().slice(0, 300),
+    guidance: typeof data.guidance === 'string' && data.guidance.trim() ? data.guidance.trim().slice(0, 300) : undefined,
+  };
+};
@@ -0,0 +1,80 @@
+import { DifficultyLevel, GameTurnData, StopResult } from "../types";
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+// Where a tour starts unless the teacher pinned a level
+export const DEFAULT_DIFFICULTY: DifficultyLevel = 'medium';
+
+export interface DifficultySettings {
+  optionCount: number;
+  distractors: string; // What the wrong options get wrong, as told to the model
+  keepClosest: boolean; // When options have to be dropped locally, keep the ones most like the answer
+  showVerbHint: boolean; // The infinitive in parentheses after the blank
+}
+
+export const DIFFICULTY_SETTINGS: Record<DifficultyLevel, DifficultySettings> = {
+  easy: { optionCount: 2, distractors: "a different tense or a form that clearly doesn't fit", keepClosest: false, showVerbHint: true },
+  medium: { optionCount: 3, distractors: "the right tense with the wrong pronoun or person", keepClosest: false, showVerbHint: true },
+  hard: { optionCount: 4, distractors: "the right form except for singular vs plural, or one letter of the ending", keepClosest: true, showVerbHint: false },
+};
+
+// Stops at the current level that decide a change: three clean ones go up, two missed ones go down
+const STEP_UP_AFTER = 3;
+const STEP_DOWN_AFTER = 2;
+
+const isClean = (result: StopResult) => result.firstTryCorrect && result.hintsUsed === 0;
+
+// How many leading characters an option shares with the answer: "Se exigen" is very close to "Se exige"
+const closeness = (option: string, answer: string) => {
+  let shared = 0;
+  while (shared < option.length && option[shared].toLowerCase() === answer[shared]?.toLowerCase()) shared++;
+  return shared;
+};
+
+export const isDifficultyLevel = (value: unknown): value is DifficultyLevel =>
+  DIFFICULTY_LEVELS.includes(value as DifficultyLevel);
+
+/**
+ * The level for the next stop. Only stops played at the current level count, so one
+ * change has to be earned again before the next.
+ */
+export const adaptDifficulty = (results: StopResult[], current: DifficultyLevel, pinned: DifficultyLevel | null): DifficultyLevel => {
+  if (pinned) return pinned;
+
+  const recent = results.filter(result => result.difficulty === current);
+  const index = DIFFICULTY_LEVELS.indexOf(current);
+  const lastUp = recent.slice(-STEP_UP_AFTER);
+  if (lastUp.length === STEP_UP_AFTER && lastUp.every(isClean)) {
+    return DIFFICULTY_LEVELS[Math.min(index + 1, DIFFICULTY_LEVELS.length - 1)];
+  }
+  const lastDown = recent.slice(-STEP_DOWN_AFTER);
+  if (lastDown.length === STEP_DOWN_AFTER && lastDown.every(result => !result.firstTryCorrect)) {
+    return DIFFICULTY_LEVELS[Math.max(index - 1, 0)];
+  }
+  return current;
+};
+
+/**
+ * Holds a turn to its level locally, whatever the model or script produced: extra wrong options
+ * are dropped (never the answer; easier levels drop the closest ones first) and the verb hint
+ * after the blank is removed when the level hides it. Options keep their order.
+ * Feedback and the eliminate hint for a dropped option go with it, so the turn still validates.
+ */
+export const applyDifficulty = (turn: GameTurnData, level: DifficultyLevel): GameTurnData => {
+  const { optionCount, keepClosest, showVerbHint } = DIFFICULTY_SETTINGS[level];
+  const byCloseness = (a: string, b: string) => closeness(b, turn.correctAnswer) - closeness(a, turn.correctAnswer);
+  const distractors = turn.options
+    .filter(option => option !== turn.correctAnswer)
+    .sort((a, b) => keepClosest ? byCloseness(a, b) : -byCloseness(a, b))
+    .slice(0, optionCount - 1);
+  const options = turn.options.filter(option => option === turn.correctAnswer || distractors.includes(option));
+  const question = showVerbHint ? turn.question : turn.question.replace(/(_{3,})\s*\([^)]*\)/, '$1');
+  const optionFeedback = turn.optionFeedback && Object.fromEntries(
+    Object.entries(turn.optionFeedback).filter(([option]) => options.includes(option))
+  );
+  const hints = turn.hints && {
+    ...turn.hints,
+    eliminate: turn.hints.eliminate && options.includes(turn.hints.eliminate) ? turn.hints.eliminate : undefined,
+  };
+  return { ...turn, options, question, optionFeedback, hints };
+};
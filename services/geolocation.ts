@@ -0,0 +1,38 @@
+import { Coordinates } from "../types";
+
+// Anything that can tell us where the player is. Injected so tests can pin a position.
+export type GeolocationSource = () => Promise<Coordinates>;
+
+const GEOLOCATION_TIMEOUT_MS = 10000;
+
+export const browserGeolocation: GeolocationSource = () =>
+  new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      reject(new Error("Geolocation is not supported by this browser"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      error => reject(new Error(error.message || "Location permission denied")),
+      { timeout: GEOLOCATION_TIMEOUT_MS, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+
+export const fixedGeolocation = (coordinates: Coordinates): GeolocationSource =>
+  async () => coordinates;
+
+/**
+ * Uses `?lat=..&lng=..` from the URL when present, so a tour can be tested
+ * from a fixed spot; otherwise asks the browser.
+ */
+export const resolveGeolocationSource = (): GeolocationSource => {
+  if (typeof window !== 'undefined') {
+    const params = new URLSearchParams(window.location.search);
+    const lat = parseFloat(params.get('lat') ?? '');
+    const lng = parseFloat(params.get('lng') ?? '');
+    if (Number.isFinite(lat) && Number.isFinite(lng)) {
+      return fixedGeolocation({ lat, lng });
+    }
+  }
+  return browserGeolocation;
+};
@@ -0,0 +1,124 @@
+import { GameTurnData, LanguageId } from "../types";
+import { getStrings } from "../i18n";
+
+export type GradeVerdict = 'correct' | 'near-miss' | 'incorrect';
+
+export interface GradeResult {
+  verdict: GradeVerdict;
+  feedback: string;
+  accentMissed?: boolean; // Correct apart from accents; the feedback points them out
+}
+
+// Indirect object pronouns used by Se Accidental; the catalogs say who each one points to
+const IO_PRONOUNS = ['me', 'te', 'le', 'nos', 'os', 'les'] as const;
+type IoPronoun = typeof IO_PRONOUNS[number];
+
+const isIoPronoun = (token: string): token is IoPronoun => (IO_PRONOUNS as readonly string[]).includes(token);
+
+// Lowercase, trim, drop sentence punctuation and squeeze spaces. Accents are kept.
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[¡!¿?.,;:"'()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const stripAccents = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const tokens = (text: string): string[] => (text ? text.split(' ') : []);
+
+const levenshtein = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+// 3rd person plural verbs end in -n ("venden", "cayeron"); singular ones don't ("vende", "cayó")
+const isPluralVerb = (verb: string) => verb.endsWith('n');
+
+// Same verb if the first three letters match once accents are gone: "cay-ó" / "cay-eron"
+const sameVerb = (a: string, b: string) => a.slice(0, 3) === b.slice(0, 3);
+
+/**
+ * Grades a typed answer for the blank against the challenge's correctAnswer.
+ * Accents and case don't fail the answer, but a missing accent is pointed out.
+ * Near misses (verb number, pronoun, missing "se", word order, typos) get specific feedback,
+ * in the learner's language.
+ */
+export const gradeAnswer = (typed: string, challenge: GameTurnData, language?: LanguageId): GradeResult => {
+  const strings = getStrings(language);
+  const answer = normalize(typed);
+  const expected = normalize(challenge.correctAnswer);
+
+  if (!answer) {
+    return { verdict: 'incorrect', feedback: strings.gradeEmpty };
+  }
+
+  if (answer === expected) {
+    return { verdict: 'correct', feedback: strings.gradeCorrect };
+  }
+
+  const bareAnswer = stripAccents(answer);
+  const bareExpected = stripAccents(expected);
+
+  if (bareAnswer === bareExpected) {
+    return { verdict: 'correct', feedback: strings.gradeWatchAccent(challenge.correctAnswer), accentMissed: true };
+  }
+
+  const answerTokens = tokens(bareAnswer);
+  const expectedTokens = tokens(bareExpected);
+  const expectedVerb = expectedTokens[expectedTokens.length - 1];
+  const answerVerb = answerTokens[answerTokens.length - 1];
+  const rightVerb = !!expectedVerb && !!answerVerb && sameVerb(expectedVerb, answerVerb);
+
+  // Right verb, but "se" is missing altogether
+  if (rightVerb && expectedTokens[0] === 'se' && !answerTokens.includes('se')) {
+    return { verdict: 'near-miss', feedback: strings.gradeMissingSe };
+  }
+
+  // Right verb, wrong indirect object pronoun (Se Accidental)
+  const expectedPronoun = expectedTokens.find(isIoPronoun);
+  const answerPronoun = answerTokens.find(isIoPronoun);
+  if (rightVerb && expectedPronoun && answerPronoun !== expectedPronoun) {
+    return {
+      verdict: 'near-miss',
+      feedback: answerPronoun
+        ? strings.gradeWrongPronoun(`${answerPronoun} (${strings.pronounGlosses[answerPronoun]})`)
+        : strings.gradeMissingPronoun,
+    };
+  }
+
+  // Same words, wrong verb number
+  if (
+    rightVerb &&
+    answerTokens.length === expectedTokens.length &&
+    answerTokens.slice(0, -1).join(' ') === expectedTokens.slice(0, -1).join(' ') &&
+    isPluralVerb(expectedVerb) !== isPluralVerb(answerVerb)
+  ) {
+    return {
+      verdict: 'near-miss',
+      feedback: strings.gradeWrongNumber(isPluralVerb(expectedVerb)),
+    };
+  }
+
+  // All the right words, wrong order ("prohibe se")
+  if ([...answerTokens].sort().join(' ') === [...expectedTokens].sort().join(' ')) {
+    return { verdict: 'near-miss', feedback: strings.gradeWrongOrder };
+  }
+
+  // Small spelling slip
+  if (bareExpected.length >= 5 && levenshtein(bareAnswer, bareExpected) <= 2) {
+    return { verdict: 'near-miss', feedback: strings.gradeSpelling };
+  }
+
+  return { verdict: 'incorrect', feedback: strings.gradeNotQuite(challenge.explanation) };
+};
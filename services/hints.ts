@@ -0,0 +1,108 @@
+import { GameTurnData, GrammarRule, GrammarTopic, Hint, HintKind } from "../types";
+import { GRAMMAR_TOPICS } from "../curriculum";
+import { UiStrings, getStrings } from "../i18n";
+
+// The order hints are revealed in: the rule, then what controls the form, then one option fewer
+export const HINT_LADDER: HintKind[] = ['rule', 'focus', 'eliminate'];
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+const findTopic = (grammarTarget?: string): GrammarTopic | undefined =>
+  grammarTarget ? GRAMMAR_TOPICS.find(topic => normalize(topic.name) === normalize(grammarTarget)) : undefined;
+
+const matchesRule = (rule: GrammarRule, answer: string): boolean => {
+  if (!rule.answerPattern) return false;
+  try {
+    return new RegExp(rule.answerPattern, 'i').test(answer.trim());
+  } catch {
+    return false;
+  }
+};
+
+const ruleHint = (challenge: GameTurnData, strings: UiStrings): Hint => {
+  const topic = findTopic(challenge.grammarTarget);
+  const rules = topic ? topic.rules : GRAMMAR_TOPICS.flatMap(t => t.rules);
+
+  // The model's pick when it names a real rule, otherwise the first rule whose pattern fits the answer
+  const fromPayload = challenge.hints?.rule;
+  const rule = (fromPayload && rules.find(r => normalize(r.title) === normalize(fromPayload)))
+    || (topic && topic.rules.find(r => matchesRule(r, challenge.correctAnswer)));
+
+  if (rule) {
+    return { kind: 'rule', ruleTitle: rule.title, text: strings.hintGuideRule(rule.title, rule.description, rule.example) };
+  }
+  if (fromPayload) {
+    return { kind: 'rule', text: strings.hintRule(fromPayload) };
+  }
+  if (topic) {
+    return { kind: 'rule', text: strings.hintGuideTopic(topic.name, topic.formula || topic.summary) };
+  }
+  return { kind: 'rule', text: strings.hintWhichRule(challenge.grammarTarget) };
+};
+
+/**
+ * Reads the explanation for what controls the form: "'le' = Carlos" gives the person,
+ * "(las pesas)" the noun. Without either, points at the words around the blank.
+ */
+const focusHint = (challenge: GameTurnData, strings: UiStrings): Hint => {
+  if (challenge.hints?.focus) {
+    return { kind: 'focus', text: challenge.hints.focus };
+  }
+
+  const parts: string[] = [];
+  const person = challenge.explanation.match(/'(\w+)'\s*=\s*([^,.;]+)/);
+  if (person) parts.push(strings.hintPerson(person[1], person[2].trim()));
+  // Only a noun that is actually in the sentence; "(always singular)" is commentary
+  const noun = challenge.explanation.match(/\(([^)]+)\)/);
+  if (noun && normalize(challenge.question).includes(normalize(noun[1]))) parts.push(strings.hintNoun(noun[1]));
+  if (parts.length > 0) {
+    return { kind: 'focus', text: parts.join(' ') };
+  }
+
+  // The verb hint in parentheses isn't a clue, so skip it
+  const [before, after = ''] = challenge.question.split(/_{3,}/);
+  const words = (text: string) => text.replace(/\([^)]*\)/g, ' ').match(/[\wáéíóúñü-]+/gi) || [];
+  const clue = words(after).slice(0, 3).join(' ') || words(before).slice(-3).join(' ');
+  return { kind: 'focus', text: clue ? strings.hintClue(clue) : strings.hintReadAgain };
+};
+
+// Crosses out a wrong option nobody has tried; in typed mode, gives away the first letters instead
+const eliminateHint = (challenge: GameTurnData, crossedOut: string[], answerMode: 'choice' | 'typed', strings: UiStrings): Hint => {
+  if (answerMode === 'typed') {
+    const answer = challenge.correctAnswer;
+    const start = answer.slice(0, Math.max(Math.ceil(answer.length / 3), answer.indexOf(' ') + 2));
+    return { kind: 'eliminate', text: strings.hintStartsWith(start) };
+  }
+
+  const candidates = challenge.options.filter(o => o !== challenge.correctAnswer && !crossedOut.includes(o));
+  const preferred = challenge.hints?.eliminate;
+  const option = preferred && candidates.includes(preferred) ? preferred : candidates[0];
+  if (!option) {
+    return { kind: 'eliminate', text: strings.hintLastOption };
+  }
+  return { kind: 'eliminate', option, text: strings.hintCrossedOut(option) };
+};
+
+/**
+ * The next hint for a challenge. `level` is how many hints were already revealed;
+ * `crossedOut` holds the wrong picks and earlier eliminations. `strings` is the learner's catalog;
+ * Grammar Guide rules and model-written hints are quoted as they are.
+ */
+export const buildHint = (
+  level: number,
+  challenge: GameTurnData,
+  crossedOut: string[],
+  answerMode: 'choice' | 'typed' = 'choice',
+  strings: UiStrings = getStrings()
+): Hint | null => {
+  switch (HINT_LADDER[level]) {
+    case 'rule':
+      return ruleHint(challenge, strings);
+    case 'focus':
+      return focusHint(challenge, strings);
+    case 'eliminate':
+      return eliminateHint(challenge, crossedOut, answerMode, strings);
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,36 @@
+// Location imagery ships with the app (public/images), so stops still have a picture offline.
+// Keyed by GameTurnData.locationType; keep in sync with LOCATION_TYPES in public/sw.js.
+export const LOCATION_IMAGES: Record<string, string> = {
+  library: '/images/locations/library.svg',
+  gym: '/images/locations/gym.svg',
+  pool: '/images/locations/pool.svg',
+  pizza: '/images/locations/pizza.svg',
+  food: '/images/locations/food.svg', // Dining
+  store: '/images/locations/store.svg',
+  park: '/images/locations/park.svg',
+  coffee: '/images/locations/coffee.svg',
+  outdoors: '/images/locations/outdoors.svg', // Campus general
+  hospital: '/images/locations/hospital.svg',
+  lab: '/images/locations/lab.svg',
+  stadium: '/images/locations/stadium.svg',
+};
+
+// Words the model sometimes uses instead of the keywords the prompt asks for
+const LOCATION_ALIASES: Record<string, string> = {
+  restaurant: 'food',
+  cafeteria: 'food',
+  dining: 'food',
+  cafe: 'coffee',
+  bookstore: 'store',
+  shop: 'store',
+  museum: 'lab',
+  clinic: 'hospital',
+  arena: 'stadium',
+  field: 'stadium',
+  campus: 'outdoors',
+};
+
+export const getLocationImage = (locationType: string): string => {
+  const type = locationType.trim().toLowerCase();
+  return LOCATION_IMAGES[type] || LOCATION_IMAGES[LOCATION_ALIASES[type]] || LOCATION_IMAGES.outdoors;
+};
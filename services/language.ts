@@ -0,0 +1,27 @@
+import { LanguageId } from "../types";
+import { DEFAULT_LANGUAGE, LANGUAGES, isLanguageId } from "../i18n";
+
+const STORAGE_KEY = 'aventura-gramatical:language';
+
+/**
+ * The learner's language for this browser: the last one picked, otherwise
+ * the browser's own language when we have a catalog for it.
+ */
+export const loadLanguage = (): LanguageId => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLanguageId(saved)) return saved;
+  } catch {
+    // Storage blocked: fall through to the browser language
+  }
+  const browser = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2).toLowerCase() : '';
+  return LANGUAGES.find(language => language.id === browser)?.id ?? DEFAULT_LANGUAGE;
+};
+
+export const saveLanguage = (language: LanguageId) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch (error) {
+    console.error("Failed to save language:", error);
+  }
+};
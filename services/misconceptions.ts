@@ -0,0 +1,91 @@
+import { GameTurnData, LanguageId, MisconceptionCounts, MisconceptionTag, OptionFeedback } from "../types";
+import { getStrings } from "../i18n";
+
+export const MISCONCEPTION_TAGS: MisconceptionTag[] = ['number-agreement', 'indirect-object-pronoun', 'non-reflexive', 'wrong-tense', 'other'];
+
+// For teachers' summaries
+export const MISCONCEPTION_LABELS: Record<MisconceptionTag, string> = {
+  'number-agreement': "Number agreement",
+  'indirect-object-pronoun': "Indirect object pronoun",
+  'non-reflexive': "Left out \"se\"",
+  'wrong-tense': "Wrong tense",
+  'other': "Other",
+};
+
+const PRONOUNS = ['me', 'te', 'le', 'nos', 'os', 'les'];
+
+const words = (text: string) => text.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+const sharedPrefix = (a: string, b: string) => {
+  let shared = 0;
+  while (shared < a.length && a[shared] === b[shared]) shared++;
+  return shared;
+};
+
+// exige / exigen, and preterites like cayó / cayeron or rompió / rompieron
+const isNumberPair = (a: string, b: string) => {
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  if (long === `${short}n`) return true;
+  const singular = short.match(/^(.*?)i?ó$/);
+  const plural = long.match(/^(.*?)(?:aron|ieron|eron)$/);
+  return !!singular && !!plural && singular[1] === plural[1];
+};
+
+export const isMisconceptionTag = (value: unknown): value is MisconceptionTag =>
+  MISCONCEPTION_TAGS.includes(value as MisconceptionTag);
+
+/**
+ * Compares a wrong answer with the right one: a missing "se" first, then the pronoun,
+ * then whether only the verb's number or its tense differs.
+ */
+export const classifyMisconception = (answer: string, correctAnswer: string): MisconceptionTag => {
+  const given = words(answer);
+  const expected = words(correctAnswer);
+  if (expected.includes('se') && !given.includes('se')) return 'non-reflexive';
+
+  const pronouns = (list: string[]) => list.filter(word => PRONOUNS.includes(word)).join(' ');
+  if (pronouns(given) !== pronouns(expected)) return 'indirect-object-pronoun';
+
+  const verb = (list: string[]) => list.filter(word => word !== 'se' && !PRONOUNS.includes(word)).join(' ');
+  const givenVerb = verb(given);
+  const expectedVerb = verb(expected);
+  if (givenVerb === expectedVerb) return 'other';
+  if (isNumberPair(givenVerb, expectedVerb)) return 'number-agreement';
+  if (sharedPrefix(givenVerb, expectedVerb) >= 3) return 'wrong-tense';
+  return 'other';
+};
+
+/**
+ * Feedback for a wrong answer: the model's, when it wrote one for this option,
+ * otherwise classified locally. Typed answers always take the local route.
+ */
+export const feedbackForAnswer = (answer: string, challenge: GameTurnData, language?: LanguageId): OptionFeedback => {
+  const fromPayload = challenge.optionFeedback?.[answer];
+  if (fromPayload) return fromPayload;
+  const tag = classifyMisconception(answer, challenge.correctAnswer);
+  const isPlural = answer.trim().length > challenge.correctAnswer.trim().length;
+  return { tag, feedback: getStrings(language).misconceptionFeedback[tag](answer, isPlural) };
+};
+
+export const countMisconceptions = (tags: MisconceptionTag[]): MisconceptionCounts => {
+  const counts: MisconceptionCounts = {};
+  for (const tag of tags) counts[tag] = (counts[tag] ?? 0) + 1;
+  return counts;
+};
+
+export const mergeMisconceptionCounts = (all: MisconceptionCounts[]): MisconceptionCounts => {
+  const merged: MisconceptionCounts = {};
+  for (const counts of all) {
+    for (const tag of MISCONCEPTION_TAGS) {
+      if (counts[tag]) merged[tag] = (merged[tag] ?? 0) + (counts[tag] as number);
+    }
+  }
+  return merged;
+};
+
+// Most frequent first, without the empty ones
+export const rankMisconceptions = (counts: MisconceptionCounts): { tag: MisconceptionTag; count: number }[] =>
+  MISCONCEPTION_TAGS
+    .map(tag => ({ tag, count: counts[tag] ?? 0 }))
+    .filter(entry => entry.count > 0)
+    .sort((a, b) => b.count - a.count);
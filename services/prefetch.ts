@@ -0,0 +1,71 @@
+import { DifficultyLevel, GameTurnData, TurnResponse } from "../types";
+import { QuestProvider, TurnProgress, turnMessage } from "./provider";
+
+interface PendingTurn {
+  epoch: number;
+  turnNumber: number;
+  response: Promise<TurnResponse>;
+  partial: Partial<GameTurnData>; // Latest streamed fields, replayed to whoever takes the turn
+  onProgress?: TurnProgress;
+}
+
+/**
+ * Requests the next stop in the background while the student works on the current one.
+ * At most one turn is in flight, so the chat still sees START_GAME, NEXT_TURN_2, ... in order.
+ * `reset()` starts a new epoch: anything requested before it is never handed out.
+ */
+export const createTurnPrefetcher = (questProvider: QuestProvider) => {
+  let epoch = 0;
+  let pending: PendingTurn | null = null;
+
+  const fetchTurn = (turnNumber: number, difficulty?: DifficultyLevel, onProgress?: TurnProgress) =>
+    questProvider.sendMessage(turnMessage(turnNumber, difficulty), onProgress);
+
+  const isPending = (turnNumber: number) =>
+    !!pending && pending.epoch === epoch && pending.turnNumber === turnNumber;
+
+  const prefetch = (turnNumber: number, difficulty?: DifficultyLevel) => {
+    if (isPending(turnNumber)) return;
+    const entry: Omit<PendingTurn, 'response'> = { epoch, turnNumber, partial: {} };
+    const response = fetchTurn(turnNumber, difficulty, partial => {
+      entry.partial = partial;
+      entry.onProgress?.(partial);
+    });
+    response.catch(() => {}); // Reported by take(), if anyone still wants this turn
+    pending = Object.assign(entry, { response });
+  };
+
+  /**
+   * Turn n, from the prefetch when one is in flight for it, otherwise fetched now.
+   * `onProgress` sees the turn's fields as they stream in, including any that arrived during the prefetch.
+   * A prefetched turn keeps the level it was requested at; `difficulty` only applies to a fresh request.
+   */
+  const take = async (turnNumber: number, difficulty?: DifficultyLevel, onProgress?: TurnProgress): Promise<TurnResponse> => {
+    const prefetched = isPending(turnNumber) ? pending : null;
+    pending = null;
+
+    if (prefetched) {
+      prefetched.onProgress = onProgress;
+      if (onProgress && Object.keys(prefetched.partial).length > 0) onProgress(prefetched.partial);
+      try {
+        return await prefetched.response;
+      } catch (error) {
+        console.warn(`Prefetch of turn ${turnNumber} failed, asking again:`, error);
+      }
+    }
+    return fetchTurn(turnNumber, difficulty, onProgress);
+  };
+
+  // Call when the tour changes (new quest, resume, back to the picker)
+  const reset = () => {
+    epoch++;
+    pending = null;
+    return epoch;
+  };
+
+  const currentEpoch = () => epoch;
+
+  return { prefetch, take, reset, currentEpoch };
+};
+
+export type TurnPrefetcher = ReturnType<typeof createTurnPrefetcher>;
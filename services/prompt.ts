@@ -0,0 +1,92 @@
+import { GrammarTopic, LanguageId, QuestPack } from "../types";
+import { getLanguage } from "../i18n";
+import { DEFAULT_DIFFICULTY, DIFFICULTY_LEVELS, DIFFICULTY_SETTINGS } from "./difficulty";
+import { MISCONCEPTION_TAGS } from "./misconceptions";
+
+// No fixed stops: the model builds the tour from real places around the player
+const buildNearbyItinerary = (pack: QuestPack, topics: GrammarTopic[]): string => `
+- Use Google Maps to find ${pack.turnCount} different REAL places within walking distance of latitude ${pack.coordinates.lat}, longitude ${pack.coordinates.lng}.
+- Use the real place name as "locationName". Never invent places and never repeat one.
+- Vary the kinds of places (library, cafe, park, store, gym...) and order them as a sensible walking route.
+- Rotate the grammar topics in this order: ${topics.map(topic => topic.name).join(', ')}.`;
+
+// A pack stop keeps its own scenario when its topic is selected; otherwise it gets the next selected topic
+const describeStop = (stopName: string, stopTarget: string, scenarioHint: string, idx: number, topics: GrammarTopic[]) => {
+  if (topics.some(topic => topic.name === stopTarget)) {
+    return `- Turn ${idx + 1}: ${stopName} (${stopTarget} - ${scenarioHint}).`;
+  }
+  const topic = topics[idx % topics.length];
+  return `- Turn ${idx + 1}: ${stopName} (${topic.name} - any situation that fits this place).`;
+};
+
+// One line per level, from the same settings the client enforces
+const describeDifficulty = (): string => DIFFICULTY_LEVELS
+  .map(level => {
+    const { optionCount, distractors, showVerbHint } = DIFFICULTY_SETTINGS[level];
+    return `- ${level}: ${optionCount} options; the wrong ones use ${distractors}; ${showVerbHint ? 'keep the verb hint in parentheses after the blank' : 'NO verb hint in parentheses'}.`;
+  })
+  .join('\n');
+
+/**
+ * Builds the Gemini system instruction for a quest pack and the selected grammar topics.
+ * The itinerary, campus and turn count come from the pack; the grammar rules come from the curriculum.
+ * Questions, explanations and hints are written in the learner's language; the exercises stay in Spanish.
+ */
+export const buildSystemInstruction = (pack: QuestPack, topics: GrammarTopic[], language?: LanguageId): string => {
+  const learnerLanguage = getLanguage(language).promptName;
+  const stops = pack.stops.slice(0, pack.turnCount);
+  const itinerary = stops.length > 0
+    ? stops
+        .map((stop, idx) => describeStop(stop.name, stop.grammarTarget, stop.scenarioHint, idx, topics))
+        .join('\n')
+    : buildNearbyItinerary(pack, topics);
+
+  const grammarRules = topics
+    .map((topic, idx) => `${idx + 1}. **${topic.name}:** ${topic.promptGuidance}`)
+    .join('\n');
+
+  return `
+You are a Spanish Quest Guide at the **${pack.campusName}**.
+You do NOT chat. You output strict JSON data for the game interface.
+
+**GAME CONFIGURATION:**
+- **Location:** ${pack.locationDescription}.
+- **Focus:** ${topics.map(topic => `"${topic.name}"`).join(' and ')}.
+- **Student's language:** ${learnerLanguage}. Write "englishQuestion", "conceptKeywords", "explanation" and "hints.focus" in ${learnerLanguage}, whatever their field names say.
+
+**YOUR TASK:**
+1. Go to the place for the current turn (see TURN MANAGEMENT below).
+2. Create a two-step challenge:
+   - Step A: A question in ${learnerLanguage} about the situation/rule (Context).
+   - Step B: A Spanish grammar fill-in-the-blank on this turn's topic that matches that context.
+3. Return the data as a raw JSON object.
+
+**GRAMMAR RULES:**
+${grammarRules}
+
+**JSON FORMAT:**
+You must return ONLY a JSON object. Do not wrap in markdown.
+{
+  "locationName": "Name of the place",
+  "locationType": "One keyword for image search: 'library', 'gym', 'pizza', 'hospital', 'park', 'store', 'coffee', 'pool', 'lab', 'stadium'",
+  "englishQuestion": "An open-ended question in ${learnerLanguage} about the rule or situation here (e.g., 'We are in the library. What is the most important rule?')",
+  "conceptKeywords": ["3-6 lowercase ${learnerLanguage} words a good answer to englishQuestion would likely use (e.g., 'quiet', 'silence', 'talk')"],
+  "spanishConcept": "The target context in Spanish (e.g., 'Precisely. Strict silence is required here.')",
+  "question": "The fill-in-the-blank sentence including the verb hint in parens unless the difficulty drops it (e.g., 'Aquí _____ (exigir) silencio.')",
+  "options": ["Option A", "Option B", "Option C"] (as many options as the difficulty asks for),
+  "correctAnswer": "The correct option string",
+  "explanation": "Brief grammar explanation in ${learnerLanguage}.",
+  "optionFeedback": {"<each wrong option, exactly as in options>": {"tag": "What it gets wrong, one of: ${MISCONCEPTION_TAGS.map(tag => `'${tag}'`).join(', ')}", "feedback": "One ${learnerLanguage} sentence on why THIS option is wrong here (e.g., 'Se venden is plural, but silencio is singular.')"}},
+  "hints": {"rule": "Title of the GRAMMAR RULES entry that decides the answer", "focus": "One ${learnerLanguage} sentence pointing at the noun the verb agrees with or the person the pronoun refers to, without giving the answer", "eliminate": "One wrong option that is clearly wrong"},
+  "grammarTarget": "Which topic this turn practices, exactly one of: ${topics.map(topic => `'${topic.name}'`).join(', ')}",
+  "isGameOver": boolean (true only after ${pack.turnCount} turns)
+}
+
+**DIFFICULTY:**
+A turn request may end with "DIFFICULTY=<level>" (${DIFFICULTY_LEVELS.join(', ')}); without one, use ${DEFAULT_DIFFICULTY}. Write that turn at that level:
+${describeDifficulty()}
+
+**TURN MANAGEMENT (${pack.turnCount} Stops):**
+${itinerary}
+`;
+};
@@ -0,0 +1,93 @@
+import { ConceptEvaluation, DifficultyLevel, GameTurnData, LanguageId, QuestPack, TurnResponse } from "../types";
+import { API_BASE } from "./api";
+import { createGeminiProvider } from "./gemini";
+import { createScriptedProvider } from "./scripted";
+
+export type ProviderId = 'gemini' | 'scripted';
+
+export interface ChatOptions {
+  pack?: QuestPack; // Defaults to the Mizzou tour
+  topicIds?: string[]; // Grammar topics to practice; defaults to the pack's own
+  // Player position for Maps grounding; overrides the pack's coordinates
+  lat?: number;
+  lng?: number;
+  // Turns already played, oldest first. Replayed as model history when resuming a saved tour.
+  previousTurns?: GameTurnData[];
+  language?: LanguageId; // The learner's language for questions and explanations; defaults to English
+}
+
+// The message that requests turn n: the opening call for turn 1, NEXT_TURN_n after that,
+// with the level it should be written at, e.g. "NEXT_TURN_3 DIFFICULTY=hard"
+export const turnMessage = (turnNumber: number, difficulty?: DifficultyLevel): string =>
+  (turnNumber <= 1 ? "START_GAME" : `NEXT_TURN_${turnNumber}`) + (difficulty ? ` DIFFICULTY=${difficulty}` : '');
+
+// The reverse: "START_GAME" is turn 1, "NEXT_TURN_n" is turn n, whatever the level
+export const parseTurnNumber = (message: string): number => {
+  const match = message.match(/NEXT_TURN_(\d+)/);
+  return match ? parseInt(match[1], 10) : 1;
+};
+
+// Streaming callbacks. Providers that can't stream just never call them.
+// A turn reports the fields parsed so far; text reports everything received so far.
+export type TurnProgress = (partial: Partial<GameTurnData>) => void;
+export type TextProgress = (textSoFar: string) => void;
+
+/**
+ * Everything the game needs from a quest backend.
+ * The UI only talks to this interface, so Gemini can be swapped for an offline script.
+ */
+export interface QuestProvider {
+  id: ProviderId;
+  initChat: (options?: ChatOptions) => Promise<void>;
+  sendMessage: (message: string, onProgress?: TurnProgress) => Promise<TurnResponse>;
+  // Acknowledges the Phase 1 answer and pivots to the grammar context, in the learner's language
+  generateBridgeResponse: (userInput: string, targetContext: string, language?: LanguageId, onText?: TextProgress) => Promise<string>;
+  // A new fill-in-the-blank on the same spanishConcept, for Review mode. Falls back to the original.
+  generateVariant: (challenge: GameTurnData) => Promise<GameTurnData>;
+  // How close the Phase 1 English answer is to the stop's spanishConcept, explained in the learner's language. Never rejects.
+  evaluateConcept: (userInput: string, challenge: GameTurnData, language?: LanguageId) => Promise<ConceptEvaluation>;
+}
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  value === 'gemini' || value === 'scripted';
+
+// How long the app waits for the quest server's health check before playing offline
+const HEALTH_TIMEOUT_MS = 3000;
+
+// Whether the quest server has a Gemini key. Only the server knows: the build never sees the key.
+const serverHasGemini = async (): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE}/api/health`, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+    const data = await response.json();
+    return data?.gemini === true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Picks the provider for this page load.
+ * Order: `?provider=` in the URL, then QUEST_PROVIDER from the build env, then Gemini if the
+ * quest server reports a key, otherwise (no key, or no server) the offline script.
+ */
+export const resolveProviderId = async (): Promise<ProviderId> => {
+  if (typeof window !== 'undefined') {
+    const fromUrl = new URLSearchParams(window.location.search).get('provider');
+    if (isProviderId(fromUrl)) return fromUrl;
+  }
+
+  const fromEnv = process.env.QUEST_PROVIDER;
+  if (isProviderId(fromEnv)) return fromEnv;
+
+  return await serverHasGemini() ? 'gemini' : 'scripted';
+};
+
+export const getQuestProvider = (id: ProviderId): QuestProvider => {
+  switch (id) {
+    case 'scripted':
+      return createScriptedProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider();
+  }
+};
@@ -0,0 +1,86 @@
+import { GameTurnData, ReviewCard } from "../types";
+
+const STORAGE_KEY = 'aventura-gramatical:review-deck';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Wait before a card in box n comes back (box 0 is due at once). Past the last box a card is retired.
+const BOX_INTERVALS = [0, 1 * DAY, 3 * DAY, 7 * DAY, 21 * DAY];
+
+// A card missed during review comes back soon, not immediately
+const LAPSE_DELAY = 10 * MINUTE;
+
+const cardId = (packId: string, challenge: GameTurnData) => `${packId}:${challenge.question}`;
+
+export const loadDeck = (): ReviewCard[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const deck = raw ? JSON.parse(raw) : [];
+    return Array.isArray(deck) ? deck : [];
+  } catch (error) {
+    console.error("Failed to load review deck:", error);
+    return [];
+  }
+};
+
+const saveDeck = (deck: ReviewCard[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(deck));
+  } catch (error) {
+    console.error("Failed to save review deck:", error);
+  }
+};
+
+/**
+ * Adds a question the student missed during a tour.
+ * A question that is already in the deck goes back to box 0.
+ * New cards are due right away so they can be reviewed at the end of the tour.
+ */
+export const addMissedItem = (packId: string, turn: number, challenge: GameTurnData, now = Date.now()) => {
+  const deck = loadDeck();
+  const id = cardId(packId, challenge);
+  const existing = deck.find(card => card.id === id);
+
+  if (existing) {
+    existing.box = 0;
+    existing.dueAt = now;
+    existing.lapses += 1;
+  } else {
+    deck.push({ id, packId, turn, challenge, box: 0, dueAt: now, addedAt: now, reviews: 0, lapses: 0 });
+  }
+  saveDeck(deck);
+};
+
+export const getDueCards = (now = Date.now()): ReviewCard[] =>
+  loadDeck()
+    .filter(card => card.dueAt <= now)
+    .sort((a, b) => a.dueAt - b.dueAt);
+
+/**
+ * Reschedules a card after a review.
+ * Right on the first try moves it up a box (and retires it after the last one);
+ * a miss sends it back to box 0.
+ */
+export const recordReview = (id: string, firstTryCorrect: boolean, now = Date.now()) => {
+  const deck = loadDeck();
+  const card = deck.find(c => c.id === id);
+  if (!card) return;
+
+  card.reviews += 1;
+  if (!firstTryCorrect) {
+    card.box = 0;
+    card.lapses += 1;
+    card.dueAt = now + LAPSE_DELAY;
+    saveDeck(deck);
+    return;
+  }
+
+  card.box += 1;
+  if (card.box >= BOX_INTERVALS.length) {
+    saveDeck(deck.filter(c => c.id !== id));
+    return;
+  }
+  card.dueAt = now + BOX_INTERVALS[card.box];
+  saveDeck(deck);
+};
@@ -0,0 +1,101 @@
+import { ConceptVerdict, MisconceptionCounts, StopResult } from "../types";
+import { countMisconceptions } from "./misconceptions";
+
+// Points for a stop, by how many wrong picks came before the right one
+const POINTS_BY_WRONG_ATTEMPTS = [100, 50, 25];
+const MIN_STOP_POINTS = 10;
+const HINT_PENALTY = 10;
+
+// Bonus for the Phase 1 English answer. A stop that needed the guided retry earns at most the partial bonus.
+const CONCEPT_POINTS: Record<ConceptVerdict, number> = { 'on-target': 20, 'partial': 10, 'off-target': 0 };
+
+export interface CategoryScore {
+  grammarTarget: string;
+  stops: number;
+  firstTryCorrect: number;
+  wrongAttempts: number;
+}
+
+export interface ScoreSummary {
+  stops: number;
+  firstTryCorrect: number;
+  accuracy: number; // First-try accuracy, 0-100
+  points: number;
+  maxPoints: number;
+  wrongAttempts: number;
+  hintsUsed: number;
+  conceptsEvaluated: number; // Stops with an evaluated English answer (older transcripts have none)
+  conceptsOnTarget: number;
+  totalTimeMs: number;
+  currentStreak: number; // First-try correct stops in a row, counting back from the latest
+  bestStreak: number;
+  byCategory: CategoryScore[];
+  misconceptions: MisconceptionCounts; // Wrong answers by what they got wrong
+  missed: StopResult[]; // Stops with at least one wrong attempt
+}
+
+export const conceptPoints = (result: StopResult): number => {
+  if (!result.conceptVerdict) return 0;
+  const points = CONCEPT_POINTS[result.conceptVerdict] ?? 0;
+  return result.conceptRetried ? Math.min(points, CONCEPT_POINTS.partial) : points;
+};
+
+export const stopPoints = (result: StopResult): number => {
+  const base = POINTS_BY_WRONG_ATTEMPTS[result.wrongAnswers.length] ?? MIN_STOP_POINTS;
+  return Math.max(MIN_STOP_POINTS, base - result.hintsUsed * HINT_PENALTY) + conceptPoints(result);
+};
+
+const maxStopPoints = (result: StopResult): number =>
+  POINTS_BY_WRONG_ATTEMPTS[0] + (result.conceptVerdict ? CONCEPT_POINTS['on-target'] : 0);
+
+export const stopDurationMs = (result: StopResult): number =>
+  Math.max(0, result.completedAt - result.startedAt);
+
+export const summarizeResults = (results: StopResult[]): ScoreSummary => {
+  const byCategory = new Map<string, CategoryScore>();
+  let bestStreak = 0;
+  let runningStreak = 0;
+
+  for (const result of results) {
+    runningStreak = result.firstTryCorrect ? runningStreak + 1 : 0;
+    bestStreak = Math.max(bestStreak, runningStreak);
+
+    const category = byCategory.get(result.grammarTarget) ?? {
+      grammarTarget: result.grammarTarget,
+      stops: 0,
+      firstTryCorrect: 0,
+      wrongAttempts: 0,
+    };
+    category.stops += 1;
+    category.firstTryCorrect += result.firstTryCorrect ? 1 : 0;
+    category.wrongAttempts += result.wrongAnswers.length;
+    byCategory.set(result.grammarTarget, category);
+  }
+
+  const firstTryCorrect = results.filter(r => r.firstTryCorrect).length;
+
+  return {
+    stops: results.length,
+    firstTryCorrect,
+    accuracy: results.length ? Math.round((firstTryCorrect / results.length) * 100) : 0,
+    points: results.reduce((sum, r) => sum + stopPoints(r), 0),
+    maxPoints: results.reduce((sum, r) => sum + maxStopPoints(r), 0),
+    wrongAttempts: results.reduce((sum, r) => sum + r.wrongAnswers.length, 0),
+    hintsUsed: results.reduce((sum, r) => sum + r.hintsUsed, 0),
+    conceptsEvaluated: results.filter(r => r.conceptVerdict).length,
+    conceptsOnTarget: results.filter(r => r.conceptVerdict === 'on-target').length,
+    totalTimeMs: results.reduce((sum, r) => sum + stopDurationMs(r), 0),
+    currentStreak: runningStreak,
+    bestStreak,
+    byCategory: Array.from(byCategory.values()),
+    misconceptions: countMisconceptions(results.flatMap(r => r.misconceptions ?? [])),
+    missed: results.filter(r => r.wrongAnswers.length > 0),
+  };
+};
+
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds.toString().padStart(2, '0')}s` : `${seconds}s`;
+};
@@ -0,0 +1,48 @@
+import { GameTurnData, LanguageId, TurnResponse } from "../types";
+import { DEFAULT_PACK } from "../quests";
+import { evaluateConceptLocally } from "./conceptEvaluator";
+import { ChatOptions, QuestProvider, parseTurnNumber } from "./provider";
+
+/**
+ * Looks up the scripted turn for a game message.
+ * Past the end of the script, the final stop is replayed.
+ */
+export const getScriptedTurn = (message: string, turns: GameTurnData[]): GameTurnData | undefined => {
+  const turnData = turns[Math.min(parseTurnNumber(message), turns.length) - 1];
+  return turnData && { ...turnData, options: [...turnData.options] };
+};
+
+/**
+ * Offline backend that serves turns from the pack's bundled script.
+ * Deterministic: the same message always yields the same turn, so tests and
+ * classrooms without internet get a full quest.
+ */
+export const createScriptedProvider = (): QuestProvider => {
+  let turns: GameTurnData[] = DEFAULT_PACK.scriptedTurns || [];
+
+  const initChat = async ({ pack = DEFAULT_PACK }: ChatOptions = {}) => {
+    if (!pack.scriptedTurns?.length) {
+      throw new Error(`Quest pack "${pack.id}" has no offline script`);
+    }
+    turns = pack.scriptedTurns;
+  };
+
+  const sendMessage = async (message: string): Promise<TurnResponse> => {
+    const turnData = getScriptedTurn(message, turns);
+    if (!turnData) {
+      throw new Error(`No scripted turn for "${message}"`);
+    }
+    return { turnData };
+  };
+
+  // No model to rephrase with, so the scripted concept is the bridge
+  const generateBridgeResponse = async (_userInput: string, targetContext: string) => targetContext;
+
+  // Nothing to rewrite with either, so Review mode replays the original item
+  const generateVariant = async (challenge: GameTurnData) => challenge;
+
+  // Keyword rules against the script's conceptKeywords
+  const evaluateConcept = async (userInput: string, challenge: GameTurnData, language?: LanguageId) => evaluateConceptLocally(userInput, challenge, language);
+
+  return { id: 'scripted', initChat, sendMessage, generateBridgeResponse, generateVariant, evaluateConcept };
+};
@@ -0,0 +1,13 @@
+/**
+ * Registers public/sw.js so the app shell and imagery load without a network.
+ * Production builds only: in dev the worker would cache Vite's unbundled modules.
+ */
+export const registerServiceWorker = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn("Service worker registration failed:", error);
+    });
+  });
+};
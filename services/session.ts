@@ -0,0 +1,47 @@
+import { ChatMessage, GameState, SavedSession } from "../types";
+
+const STORAGE_KEY = 'aventura-gramatical:session';
+
+// Bump when SavedSession changes shape; older saves are then discarded
+const SESSION_VERSION = 10;
+
+export const loadSession = (): SavedSession | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const session = JSON.parse(raw) as SavedSession;
+    if (session.version !== SESSION_VERSION || !session.packId || !Array.isArray(session.messages) || !session.gameState) {
+      clearSession();
+      return null;
+    }
+    return session;
+  } catch (error) {
+    console.error("Failed to load saved session:", error);
+    return null;
+  }
+};
+
+export const saveSession = (packId: string, gameState: GameState, messages: ChatMessage[]) => {
+  const session: SavedSession = {
+    version: SESSION_VERSION,
+    savedAt: Date.now(),
+    packId,
+    gameState,
+    messages,
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (error) {
+    // Private browsing or a full quota: the tour still works, it just won't survive a reload
+    console.error("Failed to save session:", error);
+  }
+};
+
+export const clearSession = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to clear saved session:", error);
+  }
+};
@@ -0,0 +1,349 @@
+import { BlockReason, ChatMessage, ConceptVerdict, DifficultyLevel, GameState, MisconceptionTag, QuestPack, Sender } from "../types";
+import { isDifficultyLevel } from "./difficulty";
+import { BLOCK_REASON_LABELS } from "./inputGuard";
+import { isMisconceptionTag } from "./misconceptions";
+import { summarizeResults } from "./scoring";
+
+const EXPORT_FORMAT = 'aventura-gramatical/session';
+const EXPORT_VERSION = 1;
+
+export interface ExportedAttempt {
+  answer: string;
+  isCorrect: boolean;
+  misconception?: MisconceptionTag; // Wrong attempts only
+  timestamp: string; // ISO 8601
+}
+
+// A Phase 1 answer that was kept from the model
+export interface ExportedBlockedInput {
+  text: string;
+  reason: BlockReason;
+  timestamp: string;
+}
+
+export interface ExportedStop {
+  turn: number;
+  locationName: string;
+  grammarTarget: string;
+  difficulty?: DifficultyLevel;
+  englishQuestion: string;
+  englishAnswer: string; // The last one, if the student used the guided retry
+  conceptVerdict?: ConceptVerdict;
+  conceptReason?: string;
+  bridge?: string;
+  question: string;
+  correctAnswer: string;
+  explanation: string;
+  hintsUsed: number;
+  startedAt: string;
+  completedAt: string | null; // null while the stop is still being played
+  attempts: ExportedAttempt[];
+  blockedInputs?: ExportedBlockedInput[];
+}
+
+// One student's tour, as handed to an instructor
+export interface SessionExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  studentName: string;
+  packId: string;
+  packName: string;
+  status: GameState['status'];
+  startedAt: string | null;
+  stops: ExportedStop[];
+  summary: {
+    stopsCompleted: number;
+    firstTryCorrect: number;
+    accuracy: number;
+    points: number;
+  };
+}
+
+const iso = (timestamp: number) => new Date(timestamp).toISOString();
+
+/**
+ * Rebuilds the per-stop history from the transcript.
+ * A model message opens a stop; user messages after it are the English answer and Spanish attempts.
+ */
+export const buildSessionExport = (
+  studentName: string,
+  pack: QuestPack,
+  gameState: GameState,
+  messages: ChatMessage[]
+): SessionExport => {
+  const stops: ExportedStop[] = [];
+
+  for (const message of messages) {
+    if (message.role === Sender.MODEL && message.structuredContent) {
+      const turn = message.structuredContent;
+      const stopNumber = stops.length + 1;
+      const result = gameState.results.find(r => r.turn === stopNumber);
+      stops.push({
+        turn: stopNumber,
+        locationName: turn.locationName,
+        grammarTarget: result?.grammarTarget || turn.grammarTarget || pack.stops[stopNumber - 1]?.grammarTarget || 'General',
+        difficulty: result?.difficulty,
+        englishQuestion: turn.englishQuestion,
+        englishAnswer: '',
+        bridge: result?.bridge,
+        question: turn.question,
+        correctAnswer: turn.correctAnswer,
+        explanation: turn.explanation,
+        hintsUsed: result?.hintsUsed ?? 0,
+        startedAt: iso(message.timestamp),
+        completedAt: result ? iso(result.completedAt) : null,
+        attempts: [],
+        blockedInputs: gameState.blockedInputs
+          .filter(blocked => blocked.turn === stopNumber)
+          .map(blocked => ({ text: blocked.text, reason: blocked.reason, timestamp: iso(blocked.at) })),
+      });
+      continue;
+    }
+
+    const stop = stops[stops.length - 1];
+    if (!stop || message.role !== Sender.USER) continue;
+
+    if (message.step === 'concept') {
+      stop.englishAnswer = message.text || '';
+      stop.conceptVerdict = message.conceptEvaluation?.verdict;
+      stop.conceptReason = message.conceptEvaluation?.reason;
+    } else if (message.step === 'grammar') {
+      stop.attempts.push({
+        answer: message.text || '',
+        isCorrect: !!message.isCorrect,
+        misconception: message.misconception,
+        timestamp: iso(message.timestamp),
+      });
+    }
+  }
+
+  const summary = summarizeResults(gameState.results);
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    studentName,
+    packId: pack.id,
+    packName: pack.campusName,
+    status: gameState.status,
+    startedAt: stops[0]?.startedAt ?? null,
+    stops,
+    summary: {
+      stopsCompleted: summary.stops,
+      firstTryCorrect: summary.firstTryCorrect,
+      accuracy: summary.accuracy,
+      points: summary.points,
+    },
+  };
+};
+
+// -- CSV --
+
+// One row per Spanish attempt; stops with no attempts yet still get a row
+const CSV_COLUMNS = [
+  'studentName', 'packId', 'packName', 'status', 'exportedAt', 'points',
+  'turn', 'locationName', 'grammarTarget', 'difficulty', 'englishQuestion', 'englishAnswer', 'conceptVerdict', 'conceptReason', 'bridge',
+  'question', 'correctAnswer', 'explanation', 'hintsUsed', 'startedAt', 'completedAt', 'blockedInputs',
+  'attempt', 'answer', 'isCorrect', 'misconception', 'answeredAt',
+] as const;
+
+// Spreadsheets run a cell that starts with one of these as a formula ("=HYPERLINK(...)" typed as a name or answer)
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Text that would start a formula gets a leading apostrophe, which spreadsheets show as plain text; numbers are left alone
+const escapeCsv = (value: string | number | boolean | null): string => {
+  const text = value === null ? '' : typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const sessionToCsv = (session: SessionExport): string => {
+  const rows: (string | number | boolean | null)[][] = [];
+
+  for (const stop of session.stops) {
+    const base = [
+      session.studentName, session.packId, session.packName, session.status, session.exportedAt, session.summary.points,
+      stop.turn, stop.locationName, stop.grammarTarget, stop.difficulty ?? null, stop.englishQuestion, stop.englishAnswer,
+      stop.conceptVerdict ?? null, stop.conceptReason ?? null, stop.bridge ?? null,
+      stop.question, stop.correctAnswer, stop.explanation, stop.hintsUsed, stop.startedAt, stop.completedAt,
+      stop.blockedInputs?.length ? JSON.stringify(stop.blockedInputs) : null, // Repeated on every row of the stop, read back once
+    ];
+    if (stop.attempts.length === 0) {
+      rows.push([...base, null, null, null, null, null]);
+    }
+    stop.attempts.forEach((attempt, idx) => {
+      rows.push([...base, idx + 1, attempt.answer, attempt.isCorrect, attempt.misconception ?? null, attempt.timestamp]);
+    });
+  }
+
+  return [CSV_COLUMNS.join(','), ...rows.map(row => row.map(escapeCsv).join(','))].join('\n');
+};
+
+// RFC 4180 style: quoted fields may contain commas, doubled quotes and newlines
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell !== ''));
+};
+
+// The blockedInputs cell is JSON; anything unreadable is left out rather than failing the import
+const parseBlockedInputsCell = (cell: string | undefined): ExportedBlockedInput[] | undefined => {
+  if (!cell) return undefined;
+  try {
+    const entries = JSON.parse(cell);
+    return Array.isArray(entries)
+      ? entries.filter(entry => typeof entry?.text === 'string' && entry.reason in BLOCK_REASON_LABELS)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const csvToSession = (text: string): SessionExport => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header || CSV_COLUMNS.some(column => !header.includes(column))) {
+    throw new Error("CSV is missing the expected columns");
+  }
+  // Undo escapeCsv's apostrophe in front of formula characters
+  const unescape = (cell: string) => cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+  const records = rows.map(row => Object.fromEntries(header.map((column, idx) => [column, unescape(row[idx] ?? '')])));
+  if (records.length === 0) {
+    throw new Error("CSV has no rows");
+  }
+
+  const stops = new Map<number, ExportedStop>();
+  for (const record of records) {
+    const turn = parseInt(record.turn, 10);
+    let stop = stops.get(turn);
+    if (!stop) {
+      stop = {
+        turn,
+        locationName: record.locationName,
+        grammarTarget: record.grammarTarget,
+        difficulty: isDifficultyLevel(record.difficulty) ? record.difficulty : undefined,
+        englishQuestion: record.englishQuestion,
+        englishAnswer: record.englishAnswer,
+        conceptVerdict: (record.conceptVerdict || undefined) as ConceptVerdict | undefined,
+        conceptReason: record.conceptReason || undefined,
+        bridge: record.bridge || undefined,
+        question: record.question,
+        correctAnswer: record.correctAnswer,
+        explanation: record.explanation,
+        hintsUsed: parseInt(record.hintsUsed, 10) || 0,
+        startedAt: record.startedAt,
+        completedAt: record.completedAt || null,
+        attempts: [],
+        blockedInputs: parseBlockedInputsCell(record.blockedInputs),
+      };
+      stops.set(turn, stop);
+    }
+    if (record.attempt) {
+      stop.attempts.push({
+        answer: record.answer,
+        isCorrect: record.isCorrect === 'true',
+        misconception: isMisconceptionTag(record.misconception) ? record.misconception : undefined,
+        timestamp: record.answeredAt,
+      });
+    }
+  }
+
+  const first = records[0];
+  const orderedStops = Array.from(stops.values()).sort((a, b) => a.turn - b.turn);
+  const completed = orderedStops.filter(stop => stop.completedAt);
+  const firstTryCorrect = completed.filter(stop => stop.attempts[0]?.isCorrect).length;
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: first.exportedAt,
+    studentName: first.studentName,
+    packId: first.packId,
+    packName: first.packName,
+    status: first.status as GameState['status'],
+    startedAt: orderedStops[0]?.startedAt ?? null,
+    stops: orderedStops,
+    summary: {
+      stopsCompleted: completed.length,
+      firstTryCorrect,
+      accuracy: completed.length ? Math.round((firstTryCorrect / completed.length) * 100) : 0,
+      points: parseInt(first.points, 10) || 0, // Tour total, repeated on every row
+    },
+  };
+};
+
+/**
+ * Reads an exported file back, JSON or CSV.
+ * Throws with a readable message if the file isn't one of ours.
+ */
+export const parseSessionFile = (fileName: string, text: string): SessionExport => {
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    return csvToSession(text);
+  }
+
+  const data = JSON.parse(text);
+  if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.stops)) {
+    throw new Error("Not an Aventura Gramatical session export");
+  }
+  return data as SessionExport;
+};
+
+// -- DOWNLOAD --
+
+export const exportFileName = (session: SessionExport, extension: 'json' | 'csv'): string => {
+  const student = (session.studentName || 'student').trim().replace(/[^\w-]+/g, '_');
+  const date = session.exportedAt.slice(0, 10);
+  return `${student}-${session.packId}-${date}.${extension}`;
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadSession = (session: SessionExport, format: 'json' | 'csv') => {
+  if (format === 'json') {
+    downloadFile(exportFileName(session, 'json'), JSON.stringify(session, null, 2), 'application/json');
+  } else {
+    downloadFile(exportFileName(session, 'csv'), sessionToCsv(session), 'text/csv');
+  }
+};
@@ -0,0 +1,217 @@
+import { GameTurnData, OptionFeedback } from "../types";
+import { MISCONCEPTION_TAGS, isMisconceptionTag } from "./misconceptions";
+
+export interface FieldError {
+  field: keyof GameTurnData | 'json';
+  message: string;
+}
+
+export interface ValidationResult {
+  ok: boolean;
+  turnData?: GameTurnData; // Set only when ok
+  errors: FieldError[];
+}
+
+const REQUIRED_STRING_FIELDS: (keyof GameTurnData)[] = [
+  'locationName',
+  'locationType',
+  'englishQuestion',
+  'spanishConcept',
+  'question',
+  'correctAnswer',
+  'explanation',
+];
+
+// A blank is three or more underscores, e.g. "Aquí _____ (exigir) silencio."
+const BLANK_PATTERN = /_{3,}/;
+
+/**
+ * Pulls the JSON object out of a model reply.
+ * Handles ```json fences and stray prose around the object.
+ */
+export const extractJson = (text: string): unknown => {
+  const cleaned = text.replace(/```json\n?|\n?```/g, "").trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch (e) {
+    const start = cleaned.indexOf('{');
+    const end = cleaned.lastIndexOf('}');
+    if (start === -1 || end <= start) throw e;
+    return JSON.parse(cleaned.slice(start, end + 1));
+  }
+};
+
+/**
+ * The question with the answer written into its blank, for the study journal.
+ * The verb hint in parentheses right after the blank goes too: "Aquí se exige silencio."
+ */
+export const completeSentence = (question: string, answer: string): string =>
+  question.replace(new RegExp(`${BLANK_PATTERN.source}(\\s*\\([^)]*\\))?`), (_blank, _hint, offset: number) =>
+    // A blank that opens the sentence gets a capital: "_____ silencio." -> "Se exige silencio."
+    /^[¿¡"\s]*$/.test(question.slice(0, offset)) ? answer.charAt(0).toUpperCase() + answer.slice(1) : answer
+  );
+
+/**
+ * Checks a parsed model reply against the GameTurnData contract.
+ * Every problem is reported against its field so it can be sent back to the model verbatim.
+ */
+export const validateTurnData = (raw: unknown): ValidationResult => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ok: false, errors: [{ field: 'json', message: 'Response must be a single JSON object.' }] };
+  }
+
+  const data = raw as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  for (const field of REQUIRED_STRING_FIELDS) {
+    const value = data[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push({ field, message: 'Required non-empty string is missing.' });
+    }
+  }
+
+  const options = data.options;
+  if (!Array.isArray(options) || options.some(o => typeof o !== 'string' || !o.trim())) {
+    errors.push({ field: 'options', message: 'Must be an array of non-empty strings.' });
+  } else {
+    if (options.length < 2) {
+      errors.push({ field: 'options', message: `Needs at least 2 options, got ${options.length}.` });
+    }
+    const normalized = options.map(o => (o as string).trim().toLowerCase());
+    if (new Set(normalized).size !== normalized.length) {
+      errors.push({ field: 'options', message: 'Options must all be different.' });
+    }
+    if (typeof data.correctAnswer === 'string' && !options.includes(data.correctAnswer)) {
+      errors.push({
+        field: 'correctAnswer',
+        message: `"${data.correctAnswer}" is not one of the options (${options.map(o => `"${o}"`).join(', ')}).`,
+      });
+    }
+  }
+
+  if (typeof data.question === 'string' && !BLANK_PATTERN.test(data.question)) {
+    errors.push({ field: 'question', message: 'Must contain a blank written as "_____".' });
+  }
+
+  const keywords = data.conceptKeywords;
+  if (keywords !== undefined && (!Array.isArray(keywords) || keywords.some(k => typeof k !== 'string'))) {
+    errors.push({ field: 'conceptKeywords', message: 'Must be an array of English words.' });
+  }
+
+  const hints = data.hints as Record<string, unknown> | undefined;
+  if (hints !== undefined) {
+    if (typeof hints !== 'object' || hints === null || Array.isArray(hints)) {
+      errors.push({ field: 'hints', message: 'Must be an object with "rule", "focus" and "eliminate".' });
+    } else {
+      for (const key of ['rule', 'focus', 'eliminate']) {
+        if (hints[key] !== undefined && typeof hints[key] !== 'string') {
+          errors.push({ field: 'hints', message: `"${key}" must be a string.` });
+        }
+      }
+      if (typeof hints.eliminate === 'string' && Array.isArray(options)
+          && (!options.includes(hints.eliminate) || hints.eliminate === data.correctAnswer)) {
+        errors.push({ field: 'hints', message: `"eliminate" must be one of the wrong options, not "${hints.eliminate}".` });
+      }
+    }
+  }
+
+  const optionFeedback = data.optionFeedback as Record<string, unknown> | undefined;
+  if (optionFeedback !== undefined) {
+    if (typeof optionFeedback !== 'object' || optionFeedback === null || Array.isArray(optionFeedback)) {
+      errors.push({ field: 'optionFeedback', message: 'Must be an object keyed by the wrong options.' });
+    } else {
+      for (const [option, entry] of Object.entries(optionFeedback)) {
+        const { tag, feedback } = (entry ?? {}) as Record<string, unknown>;
+        if (Array.isArray(options) && (!options.includes(option) || option === data.correctAnswer)) {
+          errors.push({ field: 'optionFeedback', message: `"${option}" is not one of the wrong options.` });
+        }
+        if (!isMisconceptionTag(tag)) {
+          errors.push({ field: 'optionFeedback', message: `"${option}".tag must be one of ${MISCONCEPTION_TAGS.join(', ')}.` });
+        }
+        if (typeof feedback !== 'string' || !feedback.trim()) {
+          errors.push({ field: 'optionFeedback', message: `"${option}".feedback must be a non-empty string.` });
+        }
+      }
+    }
+  }
+
+  if (data.grammarTarget !== undefined && typeof data.grammarTarget !== 'string') {
+    errors.push({ field: 'grammarTarget', message: 'Must be a string such as "Se Impersonal".' });
+  }
+
+  if (data.isGameOver !== undefined && typeof data.isGameOver !== 'boolean') {
+    errors.push({ field: 'isGameOver', message: 'Must be true or false.' });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    errors: [],
+    turnData: {
+      locationName: data.locationName as string,
+      locationType: data.locationType as string,
+      englishQuestion: data.englishQuestion as string,
+      conceptKeywords: keywords as string[] | undefined,
+      spanishConcept: data.spanishConcept as string,
+      question: data.question as string,
+      options: options as string[],
+      correctAnswer: data.correctAnswer as string,
+      explanation: data.explanation as string,
+      grammarTarget: data.grammarTarget as string | undefined,
+      hints: hints && {
+        rule: hints.rule as string | undefined,
+        focus: hints.focus as string | undefined,
+        eliminate: hints.eliminate as string | undefined,
+      },
+      optionFeedback: optionFeedback as Record<string, OptionFeedback> | undefined,
+      isGameOver: data.isGameOver as boolean | undefined,
+    },
+  };
+};
+
+/**
+ * Parses and validates raw model text in one step.
+ */
+export const parseTurnData = (text: string): ValidationResult => {
+  let raw: unknown;
+  try {
+    raw = extractJson(text);
+  } catch (e) {
+    return { ok: false, errors: [{ field: 'json', message: 'Response is not valid JSON.' }] };
+  }
+  return validateTurnData(raw);
+};
+
+// A "key": "value" pair whose closing quote has arrived
+const COMPLETE_STRING_FIELD = /"(\w+)"\s*:\s*"((?:[^"\\]|\\.)*)"/g;
+const SPOILER_FIELDS = ['correctAnswer', 'explanation'];
+
+/**
+ * Reads the string fields that are already complete in a turn that is still streaming in.
+ * For display only: nothing here is validated, and the answer and its explanation are never included.
+ */
+export const parsePartialTurn = (text: string): Partial<GameTurnData> => {
+  const partial: Record<string, string> = {};
+  for (const [, key, value] of text.matchAll(COMPLETE_STRING_FIELD)) {
+    if (!(REQUIRED_STRING_FIELDS as string[]).includes(key) || SPOILER_FIELDS.includes(key)) continue;
+    try {
+      partial[key] = JSON.parse(`"${value}"`);
+    } catch {
+      // A broken escape; the finished turn will be validated properly anyway
+    }
+  }
+  return partial as Partial<GameTurnData>;
+};
+
+/**
+ * Builds the follow-up message that asks the model to fix its previous turn.
+ */
+export const buildRepairPrompt = (errors: FieldError[]): string => `
+Your previous response could not be used. Fix these problems:
+${errors.map(err => `- ${err.field}: ${err.message}`).join('\n')}
+
+Return the SAME turn as a corrected raw JSON object only. Do not wrap in markdown.
+`;
@@ -32,14 +32,63 @@ export interface GameTurnData {
   locationName: string;
   locationType: string; // e.g., "library", "gym", "restaurant", "outdoors" for image matching
   englishQuestion: string; // "What is the main rule in this quiet room?"
+  conceptKeywords?: string[]; // ["quiet", "silence"]: words an on-target English answer would likely use
   spanishConcept: string; // "We need to be quiet" (Context for the user's input)
   question: string; // "Por eso, el letrero dice: '_____ (exigir) silencio'."
   options: string[]; // ["Se exige", "Busca", "Se buscan"]
   correctAnswer: string; // "Se exige"
   explanation: string; // "Singular object (silencio) -> Se exige."
+  grammarTarget?: string; // "Se Impersonal" or "Se Accidental", used for the report card
+  hints?: TurnHints; // Written by the model; missing parts are filled in by local rules
+  optionFeedback?: Record<string, OptionFeedback>; // Keyed by wrong option; options without one are classified locally
   isGameOver?: boolean;
 }
 
+// Model-written material for the hint ladder
+export interface TurnHints {
+  rule?: string; // A Grammar Guide rule title, e.g. "Se + Plural Verb"
+  focus?: string; // One sentence pointing at the controlling noun or the pronoun's person
+  eliminate?: string; // A wrong option that is safe to cross out
+}
+
+// What a wrong option gets wrong. Tallied so teachers can see which mistakes their class keeps making.
+export type MisconceptionTag = 'number-agreement' | 'indirect-object-pronoun' | 'non-reflexive' | 'wrong-tense' | 'other';
+
+export type MisconceptionCounts = Partial<Record<MisconceptionTag, number>>;
+
+// Feedback for one wrong option, shown when the student picks it
+export interface OptionFeedback {
+  tag: MisconceptionTag;
+  feedback: string; // "Se venden is plural, but silencio is singular."
+}
+
+// Why a Phase 1 answer was kept from the model
+export type BlockReason = 'injection' | 'inappropriate';
+
+// A Phase 1 answer that was never sent to the model, for the teacher's log
+export interface BlockedInput {
+  turn: number;
+  text: string; // Sanitized
+  reason: BlockReason;
+  at: number;
+}
+
+export type HintKind = 'rule' | 'focus' | 'eliminate';
+
+// One revealed step of the hint ladder
+export interface Hint {
+  kind: HintKind;
+  text: string;
+  ruleTitle?: string; // 'rule' hints: highlighted in the Grammar Guide
+  option?: string; // 'eliminate' hints: the option crossed out
+}
+
+// What a quest provider hands back for every turn request
+export interface TurnResponse {
+  turnData: GameTurnData;
+  groundingChunks?: GroundingChunk[];
+}
+
 export interface ChatMessage {
   id: string;
   role: Sender;
@@ -48,17 +97,179 @@ export interface ChatMessage {
   groundingChunks?: GroundingChunk[];
   timestamp: number;
   isCorrect?: boolean; // To style user answers
+  misconception?: MisconceptionTag; // On wrong Spanish answers
   step?: 'concept' | 'grammar'; // To track which part of the turn this message belongs to
+  conceptEvaluation?: ConceptEvaluation; // On the student's English answers
+}
+
+export type ConceptVerdict = 'on-target' | 'partial' | 'off-target';
+
+// How well a Phase 1 English answer matched the situation the stop is about
+export interface ConceptEvaluation {
+  verdict: ConceptVerdict;
+  reason: string; // One short sentence for the student
+  guidance?: string; // A nudge for the retry, without giving the answer away
+}
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
 }
 
+// How demanding a stop is: option count, how close the distractors are, and whether the verb hint is shown
+export type DifficultyLevel = 'easy' | 'medium' | 'hard';
+
+// The learner's own language: the interface and the model's questions and explanations use it; the exercises stay in Spanish
+export type LanguageId = 'en' | 'pt';
+
 export interface GameState {
   status: 'intro' | 'playing' | 'loading' | 'finished' | 'error';
-  location: {
-    lat: number;
-    lng: number;
-  } | null;
+  location: Coordinates | null; // The player's own position, set only in "Near me" mode
   currentTurn: number;
   maxTurns: number;
   activeChallenge: GameTurnData | null; // The current challenge waiting to be answered
   turnStep: 'concept' | 'grammar'; // Are we answering the English question or the Spanish grammar?
+  answerMode: 'choice' | 'typed'; // Pick one of the options, or type the missing form
+  studentName: string; // For instructor exports
+  topicIds: string[]; // Grammar topics selected for this tour
+  difficulty: DifficultyLevel; // Level for the next stop; follows recent accuracy unless pinned
+  pinnedDifficulty: DifficultyLevel | null; // Fixed by the teacher
+  attempts: number; // Spanish options tried on the active challenge
+  wrongAnswers: string[]; // Wrong options already picked on the active challenge
+  hintsUsed: number; // Hints revealed on the active challenge
+  revealedHints: Hint[]; // The hint ladder so far, in order
+  conceptEvaluation: ConceptEvaluation | null; // Latest evaluation of the English answer on the active challenge
+  conceptRetried: boolean; // The one guided retry of the English answer has been used
+  challengeStartedAt: number | null; // When the active challenge appeared
+  results: StopResult[]; // One entry per completed stop
+  blockedInputs: BlockedInput[]; // Phase 1 answers kept from the model, oldest first
+}
+
+// How the student did on one completed stop
+export interface StopResult {
+  turn: number;
+  locationName: string;
+  grammarTarget: string;
+  question: string;
+  correctAnswer: string;
+  explanation: string;
+  wrongAnswers: string[]; // In the order they were picked
+  misconceptions?: MisconceptionTag[]; // One per wrong answer, same order
+  firstTryCorrect: boolean;
+  hintsUsed: number;
+  difficulty?: DifficultyLevel; // The level the stop was played at
+  conceptVerdict?: ConceptVerdict; // The English answer's final evaluation
+  conceptRetried?: boolean;
+  bridge?: string; // The Phase 2 header: the bridge sentence, or the plain concept if there was none
+  startedAt: number;
+  completedAt: number;
+}
+
+// A missed question kept for spaced-repetition review
+export interface ReviewCard {
+  id: string; // `${packId}:${question}`, so missing the same item twice doesn't duplicate it
+  packId: string;
+  turn: number;
+  challenge: GameTurnData; // As the model first produced it
+  box: number; // Leitner box: 0 = just missed, higher = reviewed correctly more times
+  dueAt: number;
+  addedAt: number;
+  reviews: number;
+  lapses: number; // Times it was missed again during review
+}
+
+// One line of a Grammar Guide card
+export interface GrammarRule {
+  title: string; // "Se + Plural Verb"
+  description: string; // "Plural object."
+  example: string; // "Se venden libros"
+  answerPattern?: string; // Case-insensitive regex for correct answers this rule explains, to pick it for a hint
+}
+
+// A teachable grammar point: drives both the prompt and the Grammar Guide sidebar
+export interface GrammarTopic {
+  id: string;
+  name: string; // "Se Impersonal", also what turns report as grammarTarget
+  icon: string;
+  summary: string; // "Used for campus signs, rules, and general statements."
+  formula?: string; // "Se + (me/te/le) + Verb"
+  rules: GrammarRule[];
+  promptGuidance: string; // How the model should build exercises for this topic
+}
+
+// One stop on a quest pack's itinerary
+export interface QuestStop {
+  name: string; // "Ellis Library"
+  locationType: string; // Image keyword, same vocabulary as GameTurnData.locationType
+  grammarTarget: string; // "Se Impersonal"
+  scenarioHint: string; // "Silence" or "Taking photos / 'Se sacan fotos'"
+  coordinates?: Coordinates; // For the offline tour map
+}
+
+// Player-facing copy that changes from pack to pack
+export interface QuestPackCopy {
+  title: string; // "Aventura Mizzou"
+  shortTitle: string; // Mobile header, "Mizzou Quest"
+  tagline: string; // "Exploring campus mysteries..."
+  loadingText: string; // "Walking to The Columns..."
+  tourLabel: string; // Progress bar label, "Campus Tour"
+  finishTitle: string; // "Mizzou Master!"
+  finishSubtitle: string;
+  restartLabel: string; // "Start New Semester"
+}
+
+// Everything needed to run a quest somewhere: where, which stops, and what the UI says
+export interface QuestPack {
+  id: string;
+  campusName: string; // "University of Missouri (Mizzou)"
+  locationDescription: string; // "University of Missouri Campus (Columbia, MO)"
+  coordinates: Coordinates;
+  topicIds: string[]; // Default curriculum for this pack
+  turnCount: number; // Stops actually played, at most stops.length
+  stops: QuestStop[]; // Empty means the model picks real places near `coordinates`
+  copy: QuestPackCopy;
+  scriptedTurns?: GameTurnData[]; // Offline content for the scripted provider, one per stop
+}
+
+// A quest in progress, as persisted between page loads
+export interface SavedSession {
+  version: number;
+  savedAt: number;
+  packId: string;
+  gameState: GameState;
+  messages: ChatMessage[];
+}
+
+// -- CLASSROOM --
+
+// What a student's browser reports after every stop
+export interface ClassroomProgress {
+  currentTurn: number;
+  stopsCompleted: number;
+  firstTryCorrect: number;
+  points: number;
+  misconceptions: MisconceptionCounts; // Wrong answers so far, by misconception
+  blockedInputs: BlockedInput[]; // The latest few only
+  finished: boolean;
+}
+
+// A row of the leaderboard. Student ids stay on the server, so nobody can report for a classmate.
+export interface ClassroomStudent extends Omit<ClassroomProgress, 'misconceptions' | 'blockedInputs'> {
+  name: string;
+  lastSeenAt: number;
+  // Only in the teacher's view: classmates polling the class never see each other's mistakes or blocked text
+  misconceptions?: MisconceptionCounts;
+  blockedInputs?: BlockedInput[];
+}
+
+// A shared tour run by a teacher, as every member sees it
+export interface ClassroomState {
+  code: string; // Short join code, e.g. "K7QXM"
+  packId: string;
+  topicIds: string[];
+  difficulty: DifficultyLevel | null; // Pinned by the teacher for everyone; null means adaptive
+  maxTurns: number;
+  paused: boolean;
+  openStop: number; // Students can load stops up to this one; the teacher advances it
+  students: ClassroomStudent[]; // Leaderboard order
 }
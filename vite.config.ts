@@ -2,17 +2,31 @@ import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
   const env = loadEnv(mode, process.cwd(), '');
   return {
     plugins: [react()],
     define: {
-      // Polyfill process.env.API_KEY for the code requirements
-      'process.env.API_KEY': JSON.stringify(env.API_KEY || process.env.API_KEY)
+      // 'gemini' or 'scripted' (offline). Left empty, the app asks the quest server whether it has a Gemini key.
+      'process.env.QUEST_PROVIDER': JSON.stringify(env.QUEST_PROVIDER || process.env.QUEST_PROVIDER || ''),
+      // Where the quest server lives, if not on the same origin as the app
+      'process.env.QUEST_SERVER_URL': JSON.stringify(env.QUEST_SERVER_URL || process.env.QUEST_SERVER_URL || '')
     },
-    build: {
-      outDir: 'dist',
-      sourcemap: false
-    }
+    server: {
+      // `npm run dev` talks to a quest server started with `npm run server`
+      proxy: {
+        '/api': `http://localhost:${env.PORT || 3000}`
+      }
+    },
+    build: isSsrBuild
+      ? {
+          // `vite build --ssr server/index.ts`: the Node quest server
+          outDir: 'dist-server',
+          rollupOptions: { output: { entryFileNames: '[name].mjs' } }
+        }
+      : {
+          outDir: 'dist',
+          sourcemap: false
+        }
   };
-});
\ No newline at end of file
+});